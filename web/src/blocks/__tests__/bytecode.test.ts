@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+
+import { createRobotState, type RobotState } from '../../engine/robot';
+import { turnLeft, turnRight } from '../../engine/rules';
+import { createWorld, TileType } from '../../engine/world';
+import { compileBytecode, createBytecodeVm, stepBytecodeVm } from '../bytecode';
+import type { ProgramNode } from '../types';
+import { createVm, stepVm, type VmContext } from '../vm';
+
+const world = createWorld([
+  [TileType.Wall, TileType.Wall, TileType.Wall],
+  [TileType.Wall, TileType.Empty, TileType.Empty],
+  [TileType.Wall, TileType.Empty, TileType.Wall],
+]);
+
+const turnRobot = (robot: RobotState, action?: string): RobotState => {
+  if (action === 'TURN_LEFT') {
+    return { ...robot, direction: turnLeft(robot.direction) };
+  }
+  if (action === 'TURN_RIGHT') {
+    return { ...robot, direction: turnRight(robot.direction) };
+  }
+  return robot;
+};
+
+const buildContext = (robot: RobotState): VmContext => ({
+  world,
+  robot,
+  exits: [],
+  openDoors: new Set(),
+  occupiedPositions: new Set(),
+  signalRaised: false,
+});
+
+const runTree = (program: ProgramNode, limit: number, maxCallDepth?: number) => {
+  let state = createVm(program, 200, maxCallDepth, 50);
+  let robot = createRobotState(1, 1, 1);
+  const actions: string[] = [];
+  for (let index = 0; index < limit && state.status === 'running'; index += 1) {
+    const result = stepVm(state, buildContext(robot));
+    state = result.state;
+    robot = turnRobot(robot, result.action);
+    if (result.action) {
+      actions.push(result.action);
+    }
+  }
+  return { actions, status: state.status, variables: state.variables };
+};
+
+const runBytecode = (program: ProgramNode, limit: number, maxCallDepth?: number) => {
+  let state = createBytecodeVm(compileBytecode(program), 200, maxCallDepth, 50);
+  let robot = createRobotState(1, 1, 1);
+  const actions: string[] = [];
+  for (let index = 0; index < limit && state.status === 'running'; index += 1) {
+    const result = stepBytecodeVm(state, buildContext(robot));
+    state = result.state;
+    robot = turnRobot(robot, result.action);
+    if (result.action) {
+      actions.push(result.action);
+    }
+  }
+  return { actions, status: state.status, variables: state.variables };
+};
+
+const sequence = (...steps: ProgramNode['steps']): ProgramNode => ({ type: 'sequence', steps });
+
+describe('stepBytecodeVm()', () => {
+  it('matches the tree VM on loops, branches, counters and procedures', () => {
+    const programs: ProgramNode[] = [
+      sequence(
+        {
+          type: 'repeat',
+          count: 3,
+          body: sequence(
+            { type: 'change_variable', variable: 'turns', delta: 1, blockId: 'change-1' },
+            {
+              type: 'if',
+              condition: { kind: 'primitive', condition: 'WALL_AHEAD' },
+              thenBranch: sequence({ type: 'action', action: 'TURN_RIGHT', blockId: 'right-1' }),
+              elseBranch: sequence({ type: 'action', action: 'WAIT', blockId: 'wait-1' }),
+              blockId: 'if-1',
+            },
+            { type: 'repeat', count: 0, body: sequence(), blockId: 'repeat-0' },
+          ),
+          blockId: 'repeat-1',
+        },
+        {
+          type: 'repeat_until',
+          condition: {
+            kind: 'and',
+            left: { kind: 'primitive', condition: 'WALL_AHEAD' },
+            right: { kind: 'compare', variable: 'turns', operator: 'GT', value: 4 },
+          },
+          body: sequence(
+            { type: 'action', action: 'TURN_LEFT', blockId: 'left-1' },
+            { type: 'change_variable', variable: 'turns', delta: 1, blockId: 'change-2' },
+          ),
+          blockId: 'until-1',
+        },
+      ),
+      {
+        ...sequence(
+          { type: 'procedure_call', name: 'spin', blockId: 'call-1' },
+          { type: 'procedure_call', name: 'missing', blockId: 'call-2' },
+          { type: 'procedure_call', name: 'empty', blockId: 'call-3' },
+          { type: 'action', action: 'WAIT', blockId: 'wait-1' },
+          { type: 'procedure_call', name: 'spin', blockId: 'call-4' },
+        ),
+        procedures: [
+          {
+            type: 'procedure_def',
+            name: 'spin',
+            body: sequence(
+              { type: 'set_variable', variable: 'spins', value: 2, blockId: 'set-1' },
+              {
+                type: 'repeat',
+                count: 2,
+                body: sequence({ type: 'action', action: 'TURN_LEFT', blockId: 'left-1' }),
+                blockId: 'repeat-1',
+              },
+            ),
+            blockId: 'def-1',
+          },
+          { type: 'procedure_def', name: 'empty', body: sequence(), blockId: 'def-2' },
+        ],
+      },
+    ];
+
+    programs.forEach((program) => {
+      expect(runBytecode(program, 40)).toEqual(runTree(program, 40));
+    });
+  });
+
+  it('stops with the same limits as the tree VM', () => {
+    const recursive: ProgramNode = {
+      ...sequence({ type: 'procedure_call', name: 'again', blockId: 'call-1' }),
+      procedures: [
+        {
+          type: 'procedure_def',
+          name: 'again',
+          body: sequence(
+            { type: 'action', action: 'WAIT', blockId: 'wait-1' },
+            { type: 'procedure_call', name: 'again', blockId: 'call-2' },
+          ),
+          blockId: 'def-1',
+        },
+      ],
+    };
+    const spinning = sequence({
+      type: 'repeat_until',
+      condition: { kind: 'primitive', condition: 'ON_GOAL' },
+      body: sequence(),
+      blockId: 'until-1',
+    });
+
+    expect(runBytecode(recursive, 20, 3)).toEqual(runTree(recursive, 20, 3));
+    expect(runBytecode(recursive, 20, 3).status).toBe('recursion_limit');
+    expect(runBytecode(spinning, 20)).toEqual(runTree(spinning, 20));
+
+    const stalled = stepBytecodeVm(
+      createBytecodeVm(compileBytecode(spinning), 200, 16, 50),
+      buildContext(createRobotState(1, 1, 1)),
+    );
+    expect(stalled.state.status).toBe('no_progress');
+    expect(stalled.state.stalledBlockId).toBe('until-1');
+  });
+});
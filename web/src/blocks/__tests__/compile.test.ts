@@ -0,0 +1,44 @@
+import * as Blockly from 'blockly';
+import { describe, expect, it } from 'vitest';
+
+import { registerBlocks } from '../blocklySetup';
+import { compileWorkspace, hasCompileErrors } from '../compile';
+
+const buildWorkspace = (definitionName: string, callName: string) => {
+  registerBlocks();
+  const workspace = new Blockly.Workspace();
+  const definition = workspace.newBlock('lembot_procedure_def', 'def-1');
+  definition.setFieldValue(definitionName, 'NAME');
+  const call = workspace.newBlock('lembot_procedure_call', 'call-1');
+  call.setFieldValue(callName, 'NAME');
+  return workspace;
+};
+
+describe('compileWorkspace()', () => {
+  it('reports calls to procedures that are not defined', () => {
+    const workspace = buildWorkspace('spin', 'spinn');
+
+    const { diagnostics } = compileWorkspace(workspace);
+
+    expect(hasCompileErrors(diagnostics)).toBe(true);
+    expect(diagnostics).toEqual([
+      {
+        blockId: 'call-1',
+        severity: 'error',
+        message:
+          'There is no "to spinn" block to run. Check the spelling or add one with that name.',
+      },
+    ]);
+    workspace.dispose();
+  });
+
+  it('matches calls to definitions regardless of case and spacing', () => {
+    const workspace = buildWorkspace('Spin', ' spin ');
+
+    const { program, diagnostics } = compileWorkspace(workspace);
+
+    expect(diagnostics).toEqual([]);
+    expect(program.steps).toEqual([{ type: 'procedure_call', name: 'spin', blockId: 'call-1' }]);
+    workspace.dispose();
+  });
+});
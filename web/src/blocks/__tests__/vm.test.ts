@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+
+import { createRobotState } from '../../engine/robot';
+import { createWorld, TileType } from '../../engine/world';
+import type { ConditionType, ProgramNode } from '../types';
+import { createVm, stepVm, type VmContext, type VmState } from '../vm';
+
+const buildContext = (): VmContext => ({
+  world: createWorld([
+    [TileType.Wall, TileType.Wall, TileType.Wall],
+    [TileType.Wall, TileType.Empty, TileType.Wall],
+    [TileType.Wall, TileType.Wall, TileType.Wall],
+  ]),
+  robot: createRobotState(1, 1, 1),
+  exits: [],
+  openDoors: new Set(),
+  occupiedPositions: new Set(),
+  signalRaised: false,
+});
+
+const collectActions = (state: VmState, limit = 20) => {
+  const context = buildContext();
+  const actions: string[] = [];
+  let current = state;
+  for (let index = 0; index < limit && current.status === 'running'; index += 1) {
+    const result = stepVm(current, context);
+    current = result.state;
+    if (result.action) {
+      actions.push(result.action);
+    }
+  }
+  return { actions, state: current };
+};
+
+describe('stepVm()', () => {
+  it('runs procedure bodies when they are called', () => {
+    const program: ProgramNode = {
+      type: 'sequence',
+      steps: [
+        { type: 'procedure_call', name: 'spin', blockId: 'call-1' },
+        { type: 'action', action: 'WAIT', blockId: 'wait-1' },
+        { type: 'procedure_call', name: 'spin', blockId: 'call-2' },
+      ],
+      procedures: [
+        {
+          type: 'procedure_def',
+          name: 'spin',
+          body: {
+            type: 'sequence',
+            steps: [
+              { type: 'action', action: 'TURN_LEFT', blockId: 'left-1' },
+              { type: 'action', action: 'TURN_LEFT', blockId: 'left-2' },
+            ],
+          },
+          blockId: 'def-1',
+        },
+      ],
+    };
+
+    const { actions, state } = collectActions(createVm(program));
+
+    expect(actions).toEqual(['TURN_LEFT', 'TURN_LEFT', 'WAIT', 'TURN_LEFT', 'TURN_LEFT']);
+    expect(state.status).toBe('done');
+  });
+
+  it('stops with a recursion limit when calls nest too deeply', () => {
+    const program: ProgramNode = {
+      type: 'sequence',
+      steps: [{ type: 'procedure_call', name: 'again', blockId: 'call-1' }],
+      procedures: [
+        {
+          type: 'procedure_def',
+          name: 'again',
+          body: {
+            type: 'sequence',
+            steps: [
+              { type: 'action', action: 'WAIT', blockId: 'wait-1' },
+              { type: 'procedure_call', name: 'again', blockId: 'call-2' },
+            ],
+          },
+          blockId: 'def-1',
+        },
+      ],
+    };
+
+    const { actions, state } = collectActions(createVm(program, 200, 3));
+
+    expect(actions).toEqual(['WAIT', 'WAIT', 'WAIT']);
+    expect(state.status).toBe('recursion_limit');
+  });
+
+  it('keeps per-robot counters and compares them in conditions', () => {
+    const program: ProgramNode = {
+      type: 'sequence',
+      steps: [
+        {
+          type: 'repeat',
+          count: 6,
+          body: {
+            type: 'sequence',
+            steps: [
+              { type: 'change_variable', variable: 'corners', delta: 1, blockId: 'change-1' },
+              {
+                type: 'if',
+                condition: { kind: 'compare', variable: 'corners', operator: 'EQ', value: 3 },
+                thenBranch: {
+                  type: 'sequence',
+                  steps: [
+                    { type: 'action', action: 'TURN_LEFT', blockId: 'left-1' },
+                    { type: 'set_variable', variable: 'corners', value: 0, blockId: 'set-1' },
+                  ],
+                },
+                elseBranch: {
+                  type: 'sequence',
+                  steps: [{ type: 'action', action: 'WAIT', blockId: 'wait-1' }],
+                },
+                blockId: 'if-1',
+              },
+            ],
+          },
+          blockId: 'repeat-1',
+        },
+      ],
+    };
+
+    const { actions, state } = collectActions(createVm(program));
+
+    expect(actions).toEqual(['WAIT', 'WAIT', 'TURN_LEFT', 'WAIT', 'WAIT', 'TURN_LEFT']);
+    expect(state.variables).toEqual({ corners: 0 });
+  });
+
+  it('tells robots, walls, hazards and closed doors apart ahead', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall],
+      [TileType.Hazard, TileType.Empty, TileType.Door],
+      [TileType.Wall, TileType.Empty, TileType.Wall],
+    ]);
+    const senses = (
+      direction: 0 | 1 | 2 | 3,
+      condition: ConditionType,
+      openDoors = new Set<string>(),
+    ) => {
+      const program: ProgramNode = {
+        type: 'sequence',
+        steps: [
+          {
+            type: 'if',
+            condition: { kind: 'primitive', condition },
+            thenBranch: {
+              type: 'sequence',
+              steps: [{ type: 'action', action: 'WAIT', blockId: 'wait-1' }],
+            },
+            blockId: 'if-1',
+          },
+        ],
+      };
+      const result = stepVm(createVm(program), {
+        ...buildContext(),
+        world,
+        robot: createRobotState(1, 1, direction),
+        openDoors,
+        occupiedPositions: new Set(['1,2']),
+      });
+      return result.action === 'WAIT';
+    };
+
+    expect(senses(0, 'WALL_AHEAD')).toBe(true);
+    expect(senses(0, 'ROBOT_AHEAD')).toBe(false);
+    expect(senses(2, 'ROBOT_AHEAD')).toBe(true);
+    expect(senses(2, 'WALL_AHEAD')).toBe(false);
+    expect(senses(3, 'HAZARD_AHEAD')).toBe(true);
+    expect(senses(1, 'DOOR_AHEAD')).toBe(true);
+    expect(senses(1, 'DOOR_AHEAD', new Set(['2,1']))).toBe(false);
+    expect(senses(1, 'WALL_AHEAD')).toBe(false);
+  });
+
+  it('stops with no progress when a loop never reaches an action', () => {
+    const program: ProgramNode = {
+      type: 'sequence',
+      steps: [
+        {
+          type: 'repeat_until',
+          condition: { kind: 'primitive', condition: 'ON_GOAL' },
+          body: {
+            type: 'sequence',
+            steps: [
+              {
+                type: 'if',
+                condition: { kind: 'primitive', condition: 'HOLDING_KEY' },
+                thenBranch: {
+                  type: 'sequence',
+                  steps: [{ type: 'action', action: 'WAIT', blockId: 'wait-1' }],
+                },
+                blockId: 'if-1',
+              },
+            ],
+          },
+          blockId: 'until-1',
+        },
+      ],
+    };
+
+    const { actions, state } = collectActions(createVm(program, 200, 16, 50));
+
+    expect(actions).toEqual([]);
+    expect(state.status).toBe('no_progress');
+    expect(state.stalledBlockId).toBe('until-1');
+  });
+});
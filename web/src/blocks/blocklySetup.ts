@@ -29,6 +29,37 @@ const ACTION_BLOCKS = [
     nextStatement: null,
     colour: 210,
   },
+  {
+    type: 'lembot_signal',
+    message0: 'raise signal',
+    previousStatement: null,
+    nextStatement: null,
+    colour: 210,
+  },
+] as const;
+
+const SKILL_BLOCKS = [
+  {
+    type: 'lembot_build_bridge',
+    message0: 'build bridge',
+    previousStatement: null,
+    nextStatement: null,
+    colour: 20,
+  },
+  {
+    type: 'lembot_block',
+    message0: 'become blocker',
+    previousStatement: null,
+    nextStatement: null,
+    colour: 20,
+  },
+  {
+    type: 'lembot_dig',
+    message0: 'dig',
+    previousStatement: null,
+    nextStatement: null,
+    colour: 20,
+  },
 ] as const;
 
 const CONTROL_BLOCKS = [
@@ -143,6 +174,42 @@ const CONDITION_BLOCKS = [
     output: 'Boolean',
     colour: 30,
   },
+  {
+    type: 'lembot_signal_raised',
+    message0: 'signal raised?',
+    output: 'Boolean',
+    colour: 30,
+  },
+  {
+    type: 'lembot_robot_ahead',
+    message0: 'robot ahead?',
+    output: 'Boolean',
+    colour: 30,
+  },
+  {
+    type: 'lembot_wall_ahead',
+    message0: 'wall ahead?',
+    output: 'Boolean',
+    colour: 30,
+  },
+  {
+    type: 'lembot_hazard_ahead',
+    message0: 'hazard ahead?',
+    output: 'Boolean',
+    colour: 30,
+  },
+  {
+    type: 'lembot_door_ahead',
+    message0: 'closed door ahead?',
+    output: 'Boolean',
+    colour: 30,
+  },
+  {
+    type: 'lembot_holding_key',
+    message0: 'holding key?',
+    output: 'Boolean',
+    colour: 30,
+  },
   {
     type: 'lembot_logic_not',
     message0: 'not %1',
@@ -194,6 +261,114 @@ const CONDITION_BLOCKS = [
   },
 ] as const;
 
+const COUNTER_BLOCKS = [
+  {
+    type: 'lembot_set_variable',
+    message0: 'set %1 to %2',
+    args0: [
+      {
+        type: 'field_input',
+        name: 'VAR',
+        text: 'count',
+      },
+      {
+        type: 'field_number',
+        name: 'VALUE',
+        value: 0,
+        precision: 1,
+      },
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: 330,
+  },
+  {
+    type: 'lembot_change_variable',
+    message0: 'change %1 by %2',
+    args0: [
+      {
+        type: 'field_input',
+        name: 'VAR',
+        text: 'count',
+      },
+      {
+        type: 'field_number',
+        name: 'DELTA',
+        value: 1,
+        precision: 1,
+      },
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: 330,
+  },
+  {
+    type: 'lembot_compare_variable',
+    message0: '%1 %2 %3 ?',
+    args0: [
+      {
+        type: 'field_input',
+        name: 'VAR',
+        text: 'count',
+      },
+      {
+        type: 'field_dropdown',
+        name: 'OP',
+        options: [
+          ['=', 'EQ'],
+          ['≠', 'NEQ'],
+          ['<', 'LT'],
+          ['>', 'GT'],
+        ],
+      },
+      {
+        type: 'field_number',
+        name: 'VALUE',
+        value: 3,
+        precision: 1,
+      },
+    ],
+    output: 'Boolean',
+    colour: 330,
+  },
+] as const;
+
+const PROCEDURE_BLOCKS = [
+  {
+    type: 'lembot_procedure_def',
+    message0: 'to %1 %2 %3',
+    args0: [
+      {
+        type: 'field_input',
+        name: 'NAME',
+        text: 'my routine',
+      },
+      {
+        type: 'input_dummy',
+      },
+      {
+        type: 'input_statement',
+        name: 'DO',
+      },
+    ],
+    colour: 290,
+  },
+  {
+    type: 'lembot_procedure_call',
+    message0: 'do %1',
+    args0: [
+      {
+        type: 'field_input',
+        name: 'NAME',
+        text: 'my routine',
+      },
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: 290,
+  },
+] as const;
+
 export const registerBlocks = (): void => {
   if (Blockly.Blocks['lembot_move_forward']) {
     return;
@@ -201,8 +376,11 @@ export const registerBlocks = (): void => {
 
   Blockly.defineBlocksWithJsonArray([
     ...ACTION_BLOCKS,
+    ...SKILL_BLOCKS,
     ...CONTROL_BLOCKS,
     ...CONDITION_BLOCKS,
+    ...COUNTER_BLOCKS,
+    ...PROCEDURE_BLOCKS,
   ]);
 };
 
@@ -218,6 +396,15 @@ export const toolboxDefinition = {
         type: block.type,
       })),
     },
+    {
+      kind: 'category',
+      name: 'Skills',
+      colour: 20,
+      contents: SKILL_BLOCKS.map((block) => ({
+        kind: 'block',
+        type: block.type,
+      })),
+    },
     {
       kind: 'category',
       name: 'Control',
@@ -246,5 +433,23 @@ export const toolboxDefinition = {
         type: block.type,
       })),
     },
+    {
+      kind: 'category',
+      name: 'Counters',
+      colour: 330,
+      contents: COUNTER_BLOCKS.map((block) => ({
+        kind: 'block',
+        type: block.type,
+      })),
+    },
+    {
+      kind: 'category',
+      name: 'Procedures',
+      colour: 290,
+      contents: PROCEDURE_BLOCKS.map((block) => ({
+        kind: 'block',
+        type: block.type,
+      })),
+    },
   ],
 };
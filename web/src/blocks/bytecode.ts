@@ -0,0 +1,340 @@
+import type { RobotAction } from '../engine/robot';
+import type { ActionNode, AstNode, ConditionNode, ProgramNode } from './types';
+import {
+  DEFAULT_MAX_CALL_DEPTH,
+  DEFAULT_MAX_EVALUATIONS,
+  evaluateCondition,
+  type VmContext,
+  type VmStatus,
+} from './vm';
+
+interface InstructionSite {
+  blockId?: string;
+  loopBlockId?: string;
+}
+
+export type Instruction = InstructionSite &
+  (
+    | { op: 'action'; node: ActionNode }
+    | { op: 'jump'; target: number }
+    | { op: 'jump_if'; condition: ConditionNode; expected: boolean; target: number }
+    | { op: 'push_counter'; count: number }
+    | { op: 'loop_counter'; target: number }
+    | { op: 'set_variable'; variable: string; value: number }
+    | { op: 'change_variable'; variable: string; delta: number }
+    | { op: 'call'; target: number }
+    | { op: 'return' }
+    | { op: 'halt' }
+  );
+
+export interface BytecodeProgram {
+  instructions: Instruction[];
+}
+
+export interface BytecodeVmState {
+  program: BytecodeProgram;
+  pc: number;
+  counters: number[];
+  returns: number[];
+  status: VmStatus;
+  steps: number;
+  maxSteps: number;
+  maxCallDepth: number;
+  maxEvaluations: number;
+  variables: Record<string, number>;
+  currentNode?: ActionNode;
+  stalledBlockId?: string;
+}
+
+export interface BytecodeStepResult {
+  state: BytecodeVmState;
+  action?: RobotAction;
+}
+
+interface PendingCall {
+  index: number;
+  name: string;
+}
+
+const emitSequence = (
+  program: ProgramNode,
+  instructions: Instruction[],
+  calls: PendingCall[],
+  callable: Set<string>,
+  loopBlockId?: string,
+) => {
+  program.steps.forEach((node) => emitNode(node, instructions, calls, callable, loopBlockId));
+};
+
+const emitNode = (
+  node: AstNode,
+  instructions: Instruction[],
+  calls: PendingCall[],
+  callable: Set<string>,
+  loopBlockId?: string,
+) => {
+  const site = { blockId: node.blockId, loopBlockId };
+  switch (node.type) {
+    case 'action':
+      instructions.push({ ...site, op: 'action', node });
+      return;
+    case 'set_variable':
+      instructions.push({ ...site, op: 'set_variable', variable: node.variable, value: node.value });
+      return;
+    case 'change_variable':
+      instructions.push({
+        ...site,
+        op: 'change_variable',
+        variable: node.variable,
+        delta: node.delta,
+      });
+      return;
+    case 'procedure_call':
+      if (callable.has(node.name)) {
+        calls.push({ index: instructions.length, name: node.name });
+        instructions.push({ ...site, op: 'call', target: -1 });
+      }
+      return;
+    case 'repeat': {
+      if (node.count <= 0) {
+        return;
+      }
+      instructions.push({ ...site, op: 'push_counter', count: node.count });
+      const start = instructions.length;
+      emitSequence(node.body, instructions, calls, callable, loopBlockId);
+      instructions.push({ ...site, op: 'loop_counter', target: start });
+      return;
+    }
+    case 'repeat_until': {
+      const loopSite = { blockId: node.blockId, loopBlockId: node.blockId };
+      const start = instructions.length;
+      const exit: Instruction = {
+        ...loopSite,
+        op: 'jump_if',
+        condition: node.condition,
+        expected: true,
+        target: -1,
+      };
+      instructions.push(exit);
+      emitSequence(node.body, instructions, calls, callable, node.blockId);
+      instructions.push({ ...loopSite, op: 'jump', target: start });
+      exit.target = instructions.length;
+      return;
+    }
+    case 'if': {
+      const skipThen: Instruction = {
+        ...site,
+        op: 'jump_if',
+        condition: node.condition,
+        expected: false,
+        target: -1,
+      };
+      instructions.push(skipThen);
+      emitSequence(node.thenBranch, instructions, calls, callable, loopBlockId);
+      if (node.elseBranch && node.elseBranch.steps.length > 0) {
+        const skipElse: Instruction = { ...site, op: 'jump', target: -1 };
+        instructions.push(skipElse);
+        skipThen.target = instructions.length;
+        emitSequence(node.elseBranch, instructions, calls, callable, loopBlockId);
+        skipElse.target = instructions.length;
+      } else {
+        skipThen.target = instructions.length;
+      }
+      return;
+    }
+    default: {
+      const _exhaustive: never = node;
+      return _exhaustive;
+    }
+  }
+};
+
+export const compileBytecode = (program: ProgramNode): BytecodeProgram => {
+  const instructions: Instruction[] = [];
+  const calls: PendingCall[] = [];
+  const procedures = (program.procedures ?? []).filter(
+    (procedure, index, all) =>
+      all.findIndex((definition) => definition.name === procedure.name) === index,
+  );
+  const callable = new Set(
+    procedures
+      .filter((procedure) => procedure.body.steps.length > 0)
+      .map((procedure) => procedure.name),
+  );
+
+  emitSequence(program, instructions, calls, callable);
+  instructions.push({ op: 'halt' });
+
+  const entryPoints = new Map<string, number>();
+  procedures
+    .filter((procedure) => callable.has(procedure.name))
+    .forEach((procedure) => {
+      entryPoints.set(procedure.name, instructions.length);
+      emitSequence(procedure.body, instructions, calls, callable);
+      instructions.push({ blockId: procedure.blockId, op: 'return' });
+    });
+
+  calls.forEach((call) => {
+    const instruction = instructions[call.index];
+    if (instruction.op === 'call') {
+      instruction.target = entryPoints.get(call.name) ?? -1;
+    }
+  });
+
+  return { instructions };
+};
+
+export const createBytecodeVm = (
+  program: BytecodeProgram,
+  maxSteps = 200,
+  maxCallDepth = DEFAULT_MAX_CALL_DEPTH,
+  maxEvaluations = DEFAULT_MAX_EVALUATIONS,
+): BytecodeVmState => ({
+  program,
+  pc: 0,
+  counters: [],
+  returns: [],
+  status: 'running',
+  steps: 0,
+  maxSteps,
+  maxCallDepth,
+  maxEvaluations,
+  variables: {},
+});
+
+export const fingerprintBytecodeVm = (state: BytecodeVmState): string => {
+  const variables = Object.keys(state.variables)
+    .sort()
+    .map((name) => `${name}=${state.variables[name]}`);
+  return `${state.status}|${state.pc}:${state.counters.join(',')}:${state.returns.join(
+    ',',
+  )}|${variables.join(',')}`;
+};
+
+const findStalledBlockId = (
+  instructions: Instruction[],
+  pc: number,
+  returns: number[],
+  lastBlockId?: string,
+): string | undefined => {
+  const sites = [pc, ...returns.slice().reverse()];
+  for (const site of sites) {
+    const loopBlockId = instructions[site]?.loopBlockId;
+    if (loopBlockId) {
+      return loopBlockId;
+    }
+  }
+  return lastBlockId;
+};
+
+export const stepBytecodeVm = (
+  state: BytecodeVmState,
+  context: VmContext,
+): BytecodeStepResult => {
+  if (state.status !== 'running') {
+    return { state };
+  }
+
+  if (state.steps >= state.maxSteps) {
+    return {
+      state: {
+        ...state,
+        status: 'step_limit',
+        currentNode: undefined,
+      },
+    };
+  }
+
+  const { instructions } = state.program;
+  let { pc, counters, returns, variables } = state;
+  let evaluations = 0;
+  let lastBlockId: string | undefined;
+
+  const stop = (status: VmStatus, stalledBlockId?: string): BytecodeStepResult => ({
+    state: {
+      ...state,
+      pc,
+      counters,
+      returns,
+      variables,
+      status,
+      currentNode: undefined,
+      stalledBlockId: stalledBlockId ?? state.stalledBlockId,
+    },
+  });
+
+  for (;;) {
+    evaluations += 1;
+    if (evaluations > state.maxEvaluations) {
+      return stop('no_progress', findStalledBlockId(instructions, pc, returns, lastBlockId));
+    }
+
+    const instruction = instructions[pc];
+    lastBlockId = instruction.blockId ?? lastBlockId;
+
+    switch (instruction.op) {
+      case 'action':
+        return {
+          state: {
+            ...state,
+            pc: pc + 1,
+            counters,
+            returns,
+            variables,
+            steps: state.steps + 1,
+            currentNode: instruction.node,
+          },
+          action: instruction.node.action,
+        };
+      case 'jump':
+        pc = instruction.target;
+        break;
+      case 'jump_if':
+        pc =
+          evaluateCondition(instruction.condition, context, variables) === instruction.expected
+            ? instruction.target
+            : pc + 1;
+        break;
+      case 'push_counter':
+        counters = [...counters, instruction.count];
+        pc += 1;
+        break;
+      case 'loop_counter': {
+        const remaining = counters[counters.length - 1] - 1;
+        counters =
+          remaining > 0 ? [...counters.slice(0, -1), remaining] : counters.slice(0, -1);
+        pc = remaining > 0 ? instruction.target : pc + 1;
+        break;
+      }
+      case 'set_variable':
+        variables = { ...variables, [instruction.variable]: instruction.value };
+        pc += 1;
+        break;
+      case 'change_variable':
+        variables = {
+          ...variables,
+          [instruction.variable]: (variables[instruction.variable] ?? 0) + instruction.delta,
+        };
+        pc += 1;
+        break;
+      case 'call':
+        if (returns.length >= state.maxCallDepth) {
+          pc += 1;
+          return stop('recursion_limit');
+        }
+        returns = [...returns, pc + 1];
+        pc = instruction.target;
+        break;
+      case 'return':
+        pc = returns[returns.length - 1];
+        returns = returns.slice(0, -1);
+        break;
+      case 'halt':
+        return stop('done');
+      default: {
+        const _exhaustive: never = instruction;
+        return _exhaustive;
+      }
+    }
+  }
+};
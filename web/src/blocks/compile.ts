@@ -1,9 +1,52 @@
 import * as Blockly from 'blockly';
-import type { AstNode, ConditionNode, ProgramNode } from './types';
+import type {
+  AstNode,
+  CompareOperator,
+  ConditionNode,
+  ProcedureDefNode,
+  ProgramNode,
+} from './types';
 
-const compileCondition = (block: Blockly.Block | null): ConditionNode => {
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface CompileDiagnostic {
+  blockId: string;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+export interface CompileResult {
+  program: ProgramNode;
+  diagnostics: CompileDiagnostic[];
+}
+
+const compareOperators: CompareOperator[] = ['EQ', 'NEQ', 'LT', 'GT'];
+
+const missingCondition: ConditionNode = { kind: 'primitive', condition: 'AHEAD_CLEAR' };
+
+export const hasCompileErrors = (diagnostics: CompileDiagnostic[]): boolean =>
+  diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+
+const normalizeVariableName = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().toLowerCase() : '';
+
+const readNumberField = (block: Blockly.Block, name: string): number => {
+  const value = Number(block.getFieldValue(name));
+  return Number.isFinite(value) ? Math.trunc(value) : 0;
+};
+
+const compileCondition = (
+  block: Blockly.Block | null,
+  parent: Blockly.Block,
+  diagnostics: CompileDiagnostic[],
+): ConditionNode => {
   if (!block) {
-    throw new Error('Missing condition block.');
+    diagnostics.push({
+      blockId: parent.id,
+      severity: 'error',
+      message: 'This block needs a question. Drag a condition block into its empty slot.',
+    });
+    return missingCondition;
   }
 
   switch (block.type) {
@@ -19,17 +62,38 @@ const compileCondition = (block: Blockly.Block | null): ConditionNode => {
       return { kind: 'primitive', condition: 'RIGHT_CLEAR' };
     case 'lembot_left_clear':
       return { kind: 'primitive', condition: 'LEFT_CLEAR' };
+    case 'lembot_signal_raised':
+      return { kind: 'primitive', condition: 'SIGNAL_RAISED' };
+    case 'lembot_robot_ahead':
+      return { kind: 'primitive', condition: 'ROBOT_AHEAD' };
+    case 'lembot_wall_ahead':
+      return { kind: 'primitive', condition: 'WALL_AHEAD' };
+    case 'lembot_hazard_ahead':
+      return { kind: 'primitive', condition: 'HAZARD_AHEAD' };
+    case 'lembot_door_ahead':
+      return { kind: 'primitive', condition: 'DOOR_AHEAD' };
+    case 'lembot_holding_key':
+      return { kind: 'primitive', condition: 'HOLDING_KEY' };
+    case 'lembot_compare_variable': {
+      const operator = block.getFieldValue('OP') as CompareOperator;
+      return {
+        kind: 'compare',
+        variable: normalizeVariableName(block.getFieldValue('VAR')),
+        operator: compareOperators.includes(operator) ? operator : 'EQ',
+        value: readNumberField(block, 'VALUE'),
+      };
+    }
     case 'lembot_logic_not': {
       const operandBlock = block.getInputTargetBlock('OPERAND');
-      return { kind: 'not', operand: compileCondition(operandBlock) };
+      return { kind: 'not', operand: compileCondition(operandBlock, block, diagnostics) };
     }
     case 'lembot_logic_and': {
       const leftBlock = block.getInputTargetBlock('LEFT');
       const rightBlock = block.getInputTargetBlock('RIGHT');
       return {
         kind: 'and',
-        left: compileCondition(leftBlock),
-        right: compileCondition(rightBlock),
+        left: compileCondition(leftBlock, block, diagnostics),
+        right: compileCondition(rightBlock, block, diagnostics),
       };
     }
     case 'lembot_logic_or': {
@@ -37,16 +101,34 @@ const compileCondition = (block: Blockly.Block | null): ConditionNode => {
       const rightBlock = block.getInputTargetBlock('RIGHT');
       return {
         kind: 'or',
-        left: compileCondition(leftBlock),
-        right: compileCondition(rightBlock),
+        left: compileCondition(leftBlock, block, diagnostics),
+        right: compileCondition(rightBlock, block, diagnostics),
       };
     }
     default:
-      throw new Error(`Unsupported condition block: ${block.type}`);
+      diagnostics.push({
+        blockId: block.id,
+        severity: 'error',
+        message: 'This block cannot be used as a question.',
+      });
+      return missingCondition;
   }
 };
 
-const compileBlock = (block: Blockly.Block): AstNode => {
+const normalizeProcedureName = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().toLowerCase() : '';
+
+const compileProcedureDef = (
+  block: Blockly.Block,
+  diagnostics: CompileDiagnostic[],
+): ProcedureDefNode => ({
+  type: 'procedure_def',
+  name: normalizeProcedureName(block.getFieldValue('NAME')),
+  body: compileChain(block.getInputTargetBlock('DO'), diagnostics),
+  blockId: block.id,
+});
+
+const compileBlock = (block: Blockly.Block, diagnostics: CompileDiagnostic[]): AstNode | null => {
   switch (block.type) {
     case 'lembot_move_forward':
       return { type: 'action', action: 'MOVE_FORWARD', blockId: block.id };
@@ -56,24 +138,53 @@ const compileBlock = (block: Blockly.Block): AstNode => {
       return { type: 'action', action: 'TURN_RIGHT', blockId: block.id };
     case 'lembot_wait':
       return { type: 'action', action: 'WAIT', blockId: block.id };
+    case 'lembot_signal':
+      return { type: 'action', action: 'SIGNAL', blockId: block.id };
+    case 'lembot_build_bridge':
+      return { type: 'action', action: 'BUILD_BRIDGE', blockId: block.id };
+    case 'lembot_block':
+      return { type: 'action', action: 'BLOCK', blockId: block.id };
+    case 'lembot_dig':
+      return { type: 'action', action: 'DIG', blockId: block.id };
     case 'lembot_repeat': {
       const rawCount = Number(block.getFieldValue('COUNT'));
       const count = Number.isFinite(rawCount) ? Math.max(0, rawCount) : 0;
       const bodyBlock = block.getInputTargetBlock('DO');
+      if (count === 0) {
+        diagnostics.push({
+          blockId: block.id,
+          severity: 'warning',
+          message: 'Repeat 0 times skips everything inside this loop.',
+        });
+      }
+      if (!bodyBlock) {
+        diagnostics.push({
+          blockId: block.id,
+          severity: 'warning',
+          message: 'This loop is empty, so it does nothing.',
+        });
+      }
       return {
         type: 'repeat',
         count,
-        body: compileBlockChain(bodyBlock),
+        body: compileChain(bodyBlock, diagnostics),
         blockId: block.id,
       };
     }
     case 'lembot_repeat_until': {
       const conditionBlock = block.getInputTargetBlock('CONDITION');
       const bodyBlock = block.getInputTargetBlock('DO');
+      if (!bodyBlock) {
+        diagnostics.push({
+          blockId: block.id,
+          severity: 'error',
+          message: 'This loop is empty. Put at least one action inside so the robot can move.',
+        });
+      }
       return {
         type: 'repeat_until',
-        condition: compileCondition(conditionBlock),
-        body: compileBlockChain(bodyBlock),
+        condition: compileCondition(conditionBlock, block, diagnostics),
+        body: compileChain(bodyBlock, diagnostics),
         blockId: block.id,
       };
     }
@@ -81,39 +192,118 @@ const compileBlock = (block: Blockly.Block): AstNode => {
       const conditionBlock = block.getInputTargetBlock('CONDITION');
       const thenBlock = block.getInputTargetBlock('THEN');
       const elseBlock = block.getInputTargetBlock('ELSE');
-      const elseBranch = elseBlock ? compileBlockChain(elseBlock) : undefined;
+      const elseBranch = elseBlock ? compileChain(elseBlock, diagnostics) : undefined;
       return {
         type: 'if',
-        condition: compileCondition(conditionBlock),
-        thenBranch: compileBlockChain(thenBlock),
+        condition: compileCondition(conditionBlock, block, diagnostics),
+        thenBranch: compileChain(thenBlock, diagnostics),
         elseBranch,
         blockId: block.id,
       };
     }
+    case 'lembot_set_variable':
+      return {
+        type: 'set_variable',
+        variable: normalizeVariableName(block.getFieldValue('VAR')),
+        value: readNumberField(block, 'VALUE'),
+        blockId: block.id,
+      };
+    case 'lembot_change_variable':
+      return {
+        type: 'change_variable',
+        variable: normalizeVariableName(block.getFieldValue('VAR')),
+        delta: readNumberField(block, 'DELTA'),
+        blockId: block.id,
+      };
+    case 'lembot_procedure_call':
+      return {
+        type: 'procedure_call',
+        name: normalizeProcedureName(block.getFieldValue('NAME')),
+        blockId: block.id,
+      };
     default:
-      throw new Error(`Unsupported block: ${block.type}`);
+      diagnostics.push({
+        blockId: block.id,
+        severity: 'error',
+        message: 'This block only fits inside another block.',
+      });
+      return null;
   }
 };
 
-export const compileBlockChain = (startBlock: Blockly.Block | null): ProgramNode => {
+const compileChain = (
+  startBlock: Blockly.Block | null,
+  diagnostics: CompileDiagnostic[],
+): ProgramNode => {
   const steps: AstNode[] = [];
   let block: Blockly.Block | null = startBlock;
 
   while (block) {
-    steps.push(compileBlock(block));
+    const node = compileBlock(block, diagnostics);
+    if (node) {
+      steps.push(node);
+    }
     block = block.getNextBlock();
   }
 
   return { type: 'sequence', steps };
 };
 
-export const compileWorkspace = (workspace: Blockly.Workspace): ProgramNode => {
+export const compileBlockChain = (startBlock: Blockly.Block | null): ProgramNode =>
+  compileChain(startBlock, []);
+
+export const compileWorkspace = (workspace: Blockly.Workspace): CompileResult => {
   const topBlocks = workspace.getTopBlocks(true);
   const steps: AstNode[] = [];
+  const procedures: ProcedureDefNode[] = [];
+  const diagnostics: CompileDiagnostic[] = [];
+  let chainCount = 0;
 
   topBlocks.forEach((block) => {
-    steps.push(...compileBlockChain(block).steps);
+    if (block.type === 'lembot_procedure_def') {
+      const procedure = compileProcedureDef(block, diagnostics);
+      if (procedures.some((existing) => existing.name === procedure.name)) {
+        diagnostics.push({
+          blockId: block.id,
+          severity: 'error',
+          message: `There is already a procedure called "${procedure.name}". Give this one a new name.`,
+        });
+        return;
+      }
+      procedures.push(procedure);
+      return;
+    }
+    chainCount += 1;
+    if (chainCount > 1) {
+      diagnostics.push({
+        blockId: block.id,
+        severity: 'warning',
+        message: 'These blocks are not attached to the others. They will run after the blocks above them.',
+      });
+    }
+    steps.push(...compileChain(block, diagnostics).steps);
   });
 
-  return { type: 'sequence', steps };
+  const procedureNames = new Set(procedures.map((procedure) => procedure.name));
+  workspace
+    .getAllBlocks(false)
+    .filter((block) => block.type === 'lembot_procedure_call')
+    .forEach((block) => {
+      const name = normalizeProcedureName(block.getFieldValue('NAME'));
+      if (!procedureNames.has(name)) {
+        diagnostics.push({
+          blockId: block.id,
+          severity: 'error',
+          message: name
+            ? `There is no "to ${name}" block to run. Check the spelling or add one with that name.`
+            : 'Type the name of the procedure this block should run.',
+        });
+      }
+    });
+
+  const program: ProgramNode =
+    procedures.length > 0
+      ? { type: 'sequence', steps, procedures }
+      : { type: 'sequence', steps };
+  return { program, diagnostics };
 };
@@ -6,10 +6,19 @@ export type ConditionType =
   | 'ON_GOAL'
   | 'ON_PRESSURE_PLATE'
   | 'RIGHT_CLEAR'
-  | 'LEFT_CLEAR';
+  | 'LEFT_CLEAR'
+  | 'SIGNAL_RAISED'
+  | 'ROBOT_AHEAD'
+  | 'WALL_AHEAD'
+  | 'HAZARD_AHEAD'
+  | 'DOOR_AHEAD'
+  | 'HOLDING_KEY';
+
+export type CompareOperator = 'EQ' | 'NEQ' | 'LT' | 'GT';
 
 export type ConditionNode =
   | { kind: 'primitive'; condition: ConditionType }
+  | { kind: 'compare'; variable: string; operator: CompareOperator; value: number }
   | { kind: 'not'; operand: ConditionNode }
   | { kind: 'and'; left: ConditionNode; right: ConditionNode }
   | { kind: 'or'; left: ConditionNode; right: ConditionNode };
@@ -42,9 +51,44 @@ export interface IfNode {
   blockId: string;
 }
 
-export type AstNode = ActionNode | RepeatNode | RepeatUntilNode | IfNode;
+export interface SetVariableNode {
+  type: 'set_variable';
+  variable: string;
+  value: number;
+  blockId: string;
+}
+
+export interface ChangeVariableNode {
+  type: 'change_variable';
+  variable: string;
+  delta: number;
+  blockId: string;
+}
+
+export interface ProcedureDefNode {
+  type: 'procedure_def';
+  name: string;
+  body: ProgramNode;
+  blockId: string;
+}
+
+export interface ProcedureCallNode {
+  type: 'procedure_call';
+  name: string;
+  blockId: string;
+}
+
+export type AstNode =
+  | ActionNode
+  | RepeatNode
+  | RepeatUntilNode
+  | IfNode
+  | ProcedureCallNode
+  | SetVariableNode
+  | ChangeVariableNode;
 
 export interface ProgramNode {
   type: 'sequence';
   steps: AstNode[];
+  procedures?: ProcedureDefNode[];
 }
@@ -4,21 +4,34 @@ import {
   isDoor,
   isGoal,
   isHazard,
+  isLockedDoor,
   isPressurePlate,
   isRaft,
   isWall,
   type World,
 } from '../engine/world';
-import type { ActionNode, ConditionNode, ConditionType, ProgramNode, RepeatUntilNode } from './types';
+import type {
+  ActionNode,
+  CompareOperator,
+  ConditionNode,
+  ConditionType,
+  ProgramNode,
+  RepeatUntilNode,
+} from './types';
 
-export type VmStatus = 'running' | 'done' | 'step_limit';
+export type VmStatus = 'running' | 'done' | 'step_limit' | 'recursion_limit' | 'no_progress';
+
+export const DEFAULT_MAX_CALL_DEPTH = 16;
+
+export const DEFAULT_MAX_EVALUATIONS = 1000;
 
 export interface VmContext {
   world: World;
   robot: RobotState;
   exits: { x: number; y: number }[];
-  doorOpen: boolean;
+  openDoors: Set<string>;
   occupiedPositions: Set<string>;
+  signalRaised: boolean;
 }
 
 interface SequenceFrame {
@@ -40,7 +53,14 @@ interface RepeatUntilFrame {
   index: number;
 }
 
-type Frame = SequenceFrame | RepeatFrame | RepeatUntilFrame;
+interface CallFrame {
+  kind: 'call';
+  node: ProgramNode;
+  index: number;
+  name: string;
+}
+
+type Frame = SequenceFrame | RepeatFrame | RepeatUntilFrame | CallFrame;
 
 export interface VmState {
   program: ProgramNode;
@@ -48,7 +68,11 @@ export interface VmState {
   status: VmStatus;
   steps: number;
   maxSteps: number;
+  maxCallDepth: number;
+  maxEvaluations: number;
+  variables: Record<string, number>;
   currentNode?: ActionNode;
+  stalledBlockId?: string;
 }
 
 export interface VmStepResult {
@@ -56,36 +80,71 @@ export interface VmStepResult {
   action?: RobotAction;
 }
 
-export const createVm = (program: ProgramNode, maxSteps = 200): VmState => ({
+export const createVm = (
+  program: ProgramNode,
+  maxSteps = 200,
+  maxCallDepth = DEFAULT_MAX_CALL_DEPTH,
+  maxEvaluations = DEFAULT_MAX_EVALUATIONS,
+): VmState => ({
   program,
   stack: [{ kind: 'sequence', node: program, index: 0 }],
   status: 'running',
   steps: 0,
   maxSteps,
+  maxCallDepth,
+  maxEvaluations,
+  variables: {},
 });
 
-const evaluateCondition = (condition: ConditionNode, context: VmContext): boolean => {
+const compareValues = (left: number, operator: CompareOperator, right: number): boolean => {
+  switch (operator) {
+    case 'EQ':
+      return left === right;
+    case 'NEQ':
+      return left !== right;
+    case 'LT':
+      return left < right;
+    case 'GT':
+      return left > right;
+    default:
+      return false;
+  }
+};
+
+export const evaluateCondition = (
+  condition: ConditionNode,
+  context: VmContext,
+  variables: Record<string, number>,
+): boolean => {
   if (condition.kind === 'not') {
-    return !evaluateCondition(condition.operand, context);
+    return !evaluateCondition(condition.operand, context, variables);
   }
 
   if (condition.kind === 'and') {
     return (
-      evaluateCondition(condition.left, context) &&
-      evaluateCondition(condition.right, context)
+      evaluateCondition(condition.left, context, variables) &&
+      evaluateCondition(condition.right, context, variables)
     );
   }
 
   if (condition.kind === 'or') {
     return (
-      evaluateCondition(condition.left, context) ||
-      evaluateCondition(condition.right, context)
+      evaluateCondition(condition.left, context, variables) ||
+      evaluateCondition(condition.right, context, variables)
     );
   }
 
+  if (condition.kind === 'compare') {
+    return compareValues(variables[condition.variable] ?? 0, condition.operator, condition.value);
+  }
+
   return evaluatePrimitiveCondition(condition.condition, context);
 };
 
+const isClosedDoor = (context: VmContext, x: number, y: number): boolean =>
+  (isDoor(context.world, x, y) || isLockedDoor(context.world, x, y)) &&
+  !context.openDoors.has(`${x},${y}`);
+
 const evaluatePrimitiveCondition = (
   condition: ConditionType,
   context: VmContext,
@@ -101,7 +160,7 @@ const evaluatePrimitiveCondition = (
       const forward = getForwardPosition(robot, robot.direction);
       return !isWall(world, forward.x, forward.y) &&
         !isHazard(world, forward.x, forward.y) &&
-        !(isDoor(world, forward.x, forward.y) && !context.doorOpen) &&
+        !isClosedDoor(context, forward.x, forward.y) &&
         !context.occupiedPositions.has(`${forward.x},${forward.y}`);
     }
     case 'ON_GOAL':
@@ -115,7 +174,7 @@ const evaluatePrimitiveCondition = (
       const right = getForwardPosition(robot, rightDirection);
       return !isWall(world, right.x, right.y) &&
         !isHazard(world, right.x, right.y) &&
-        !(isDoor(world, right.x, right.y) && !context.doorOpen) &&
+        !isClosedDoor(context, right.x, right.y) &&
         !context.occupiedPositions.has(`${right.x},${right.y}`);
     }
     case 'LEFT_CLEAR': {
@@ -123,14 +182,69 @@ const evaluatePrimitiveCondition = (
       const left = getForwardPosition(robot, leftDirection);
       return !isWall(world, left.x, left.y) &&
         !isHazard(world, left.x, left.y) &&
-        !(isDoor(world, left.x, left.y) && !context.doorOpen) &&
+        !isClosedDoor(context, left.x, left.y) &&
         !context.occupiedPositions.has(`${left.x},${left.y}`);
     }
+    case 'SIGNAL_RAISED':
+      return context.signalRaised;
+    case 'ROBOT_AHEAD': {
+      const forward = getForwardPosition(robot, robot.direction);
+      return context.occupiedPositions.has(`${forward.x},${forward.y}`);
+    }
+    case 'WALL_AHEAD': {
+      const forward = getForwardPosition(robot, robot.direction);
+      return isWall(world, forward.x, forward.y);
+    }
+    case 'HAZARD_AHEAD': {
+      const forward = getForwardPosition(robot, robot.direction);
+      return isHazard(world, forward.x, forward.y);
+    }
+    case 'DOOR_AHEAD': {
+      const forward = getForwardPosition(robot, robot.direction);
+      return isClosedDoor(context, forward.x, forward.y);
+    }
+    case 'HOLDING_KEY':
+      return robot.inventory.length > 0;
     default:
       return false;
   }
 };
 
+const nodeIds = new WeakMap<object, number>();
+let nextNodeId = 0;
+
+const getNodeId = (node: object): number => {
+  let id = nodeIds.get(node);
+  if (id === undefined) {
+    id = nextNodeId;
+    nextNodeId += 1;
+    nodeIds.set(node, id);
+  }
+  return id;
+};
+
+export const fingerprintVm = (state: VmState): string => {
+  const frames = state.stack.map((frame) =>
+    frame.kind === 'repeat'
+      ? `${getNodeId(frame.node)}:${frame.index}:${frame.remaining}`
+      : `${getNodeId(frame.node)}:${frame.index}`,
+  );
+  const variables = Object.keys(state.variables)
+    .sort()
+    .map((name) => `${name}=${state.variables[name]}`);
+  return `${state.status}|${frames.join('/')}|${variables.join(',')}`;
+};
+
+const findStalledBlockId = (stack: Frame[], lastBlockId?: string): string | undefined => {
+  for (let index = stack.length - 1; index >= 0; index -= 1) {
+    const frame = stack[index];
+    if (frame.kind === 'repeat_until') {
+      return frame.node.blockId;
+    }
+  }
+  return lastBlockId;
+};
+
 const cloneStack = (stack: Frame[]): Frame[] =>
   stack.map((frame) => ({
     ...frame,
@@ -152,13 +266,30 @@ export const stepVm = (state: VmState, context: VmContext): VmStepResult => {
   }
 
   const stack = cloneStack(state.stack);
+  let variables = state.variables;
+  let evaluations = 0;
+  let lastBlockId: string | undefined;
 
   while (stack.length > 0) {
+    evaluations += 1;
+    if (evaluations > state.maxEvaluations) {
+      return {
+        state: {
+          ...state,
+          stack,
+          variables,
+          status: 'no_progress',
+          currentNode: undefined,
+          stalledBlockId: findStalledBlockId(stack, lastBlockId),
+        },
+      };
+    }
+
     const frame = stack[stack.length - 1];
     const sequenceNode = frame.kind === 'repeat_until' ? frame.node.body : frame.node;
 
     if (frame.kind === 'repeat_until') {
-      if (frame.index === 0 && evaluateCondition(frame.node.condition, context)) {
+      if (frame.index === 0 && evaluateCondition(frame.node.condition, context, variables)) {
         stack.pop();
         continue;
       }
@@ -166,7 +297,7 @@ export const stepVm = (state: VmState, context: VmContext): VmStepResult => {
       if (frame.index >= sequenceNode.steps.length) {
         frame.index = 0;
 
-        if (evaluateCondition(frame.node.condition, context)) {
+        if (evaluateCondition(frame.node.condition, context, variables)) {
           stack.pop();
         }
         continue;
@@ -197,11 +328,13 @@ export const stepVm = (state: VmState, context: VmContext): VmStepResult => {
 
     const node = sequenceNode.steps[frame.index];
     frame.index += 1;
+    lastBlockId = node.blockId;
 
     if (node.type === 'action') {
       const nextState: VmState = {
         ...state,
         stack,
+        variables,
         steps: state.steps + 1,
         currentNode: node,
       };
@@ -230,8 +363,46 @@ export const stepVm = (state: VmState, context: VmContext): VmStepResult => {
       continue;
     }
 
+    if (node.type === 'set_variable') {
+      variables = { ...variables, [node.variable]: node.value };
+      continue;
+    }
+
+    if (node.type === 'change_variable') {
+      variables = {
+        ...variables,
+        [node.variable]: (variables[node.variable] ?? 0) + node.delta,
+      };
+      continue;
+    }
+
+    if (node.type === 'procedure_call') {
+      const procedure = state.program.procedures?.find(
+        (definition) => definition.name === node.name,
+      );
+      if (!procedure || procedure.body.steps.length === 0) {
+        continue;
+      }
+
+      const callDepth = stack.filter((entry) => entry.kind === 'call').length;
+      if (callDepth >= state.maxCallDepth) {
+        return {
+          state: {
+            ...state,
+            stack,
+            variables,
+            status: 'recursion_limit',
+            currentNode: undefined,
+          },
+        };
+      }
+
+      stack.push({ kind: 'call', node: procedure.body, index: 0, name: procedure.name });
+      continue;
+    }
+
     if (node.type === 'if') {
-      const conditionMet = evaluateCondition(node.condition, context);
+      const conditionMet = evaluateCondition(node.condition, context, variables);
       const branch = conditionMet ? node.thenBranch : node.elseBranch;
       if (branch && branch.steps.length > 0) {
         stack.push({ kind: 'sequence', node: branch, index: 0 });
@@ -243,6 +414,7 @@ export const stepVm = (state: VmState, context: VmContext): VmStepResult => {
     state: {
       ...state,
       stack,
+      variables,
       status: 'done',
       currentNode: undefined,
     },
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { explainFailure } from '../failure';
+import { createSimulation, stepSimulation, type SimulationEvent } from '../sim';
+import { createWorld, TileType } from '../world';
+
+describe('explainFailure()', () => {
+  it('names drowned robots, deadlocked pairs and finished programs', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [TileType.Wall, TileType.Empty, TileType.Water, TileType.Empty, TileType.Wall],
+      [TileType.Wall, TileType.Empty, TileType.Empty, TileType.Empty, TileType.Wall],
+      [TileType.Wall, TileType.Goal, TileType.Empty, TileType.Empty, TileType.Wall],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    let simulation = createSimulation({
+      world,
+      spawner: {
+        x: 1,
+        y: 1,
+        dir: 1,
+        count: 4,
+        intervalTicks: 0,
+        starts: [
+          { x: 1, y: 1, dir: 1 },
+          { x: 1, y: 2, dir: 1 },
+          { x: 2, y: 2, dir: 3 },
+          { x: 3, y: 3, dir: 1 },
+        ],
+      },
+      exits: [{ x: 1, y: 3 }],
+      requiredSaved: 4,
+    });
+    const events: SimulationEvent[] = [...simulation.events];
+    for (let tick = 0; tick < 2; tick += 1) {
+      simulation = stepSimulation(simulation, ['MOVE_FORWARD', 'MOVE_FORWARD', 'MOVE_FORWARD']);
+      events.push(...simulation.events);
+    }
+
+    const explanations = explainFailure(simulation, events, ['robot-4']);
+
+    expect(explanations.map((explanation) => explanation.message)).toEqual([
+      'robot-1 drowned at (2, 1) on tick 1.',
+      'Robots 2 and 3 were stuck waiting for each other.',
+      'robot-4 ran out of blocks while facing a wall.',
+    ]);
+    expect(explanations[1].tick).toBe(1);
+  });
+});
@@ -2,7 +2,7 @@ import { describe, expect, it } from 'vitest';
 
 import { createRobotState } from '../robot';
 import { applyAction } from '../rules';
-import { createSimulation, stepSimulation } from '../sim';
+import { createSimulation, fingerprintSimulation, stepSimulation } from '../sim';
 import { createWorld, TileType } from '../world';
 
 const buildWorld = () =>
@@ -183,6 +183,39 @@ describe('simulation rules', () => {
     expect(next.nextSpawnTick).toBe(1);
   });
 
+  it('repeats fingerprints while staggered spawns are blocked or finished', () => {
+    const world = buildOpenWorld();
+    const spin = (initial: ReturnType<typeof createSimulation>, ticks: number) => {
+      let sim = initial;
+      const fingerprints = [fingerprintSimulation(sim)];
+      for (let tick = 0; tick < ticks; tick += 1) {
+        sim = stepSimulation(sim, sim.robots.map(() => 'TURN_LEFT'));
+        fingerprints.push(fingerprintSimulation(sim));
+      }
+      return { sim, fingerprints };
+    };
+
+    const blocked = spin(
+      createSimulation({ world, spawner: { x: 1, y: 1, dir: 1, count: 2, intervalTicks: 3 } }),
+      12,
+    );
+
+    expect(blocked.sim.spawnedCount).toBe(1);
+    expect(blocked.fingerprints[8]).toBe(blocked.fingerprints[4]);
+
+    let walked = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 2, intervalTicks: 3 },
+    });
+    for (let tick = 0; tick < 3; tick += 1) {
+      walked = stepSimulation(walked, ['MOVE_FORWARD']);
+    }
+    const finished = spin(walked, 8);
+
+    expect(finished.sim.spawnedCount).toBe(2);
+    expect(finished.fingerprints[8]).toBe(finished.fingerprints[4]);
+  });
+
   it('keeps doors closed when no plates are pressed', () => {
     const world = buildDoorWorld();
     const sim = createSimulation({
@@ -253,4 +286,381 @@ describe('simulation rules', () => {
 
     expect(doublePlate.robots[2].x).toBe(2);
   });
+
+  it('opens each door only when the plates on its own channel are pressed', () => {
+    const world = buildDoublePlateWorld();
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 0, intervalTicks: 0 },
+      channels: [
+        { x: 1, y: 2, channel: 1 },
+        { x: 3, y: 2, channel: 2 },
+        { x: 2, y: 1, channel: 1 },
+      ],
+    });
+    const next = stepSimulation(
+      {
+        ...sim,
+        robots: [
+          { ...createRobotState(1, 2, 1, 'robot-1') },
+          { ...createRobotState(1, 1, 1, 'robot-2') },
+        ],
+      },
+      ['WAIT', 'MOVE_FORWARD'],
+    );
+
+    expect(next.robots[1].x).toBe(2);
+    expect(next.openChannels).toEqual([1]);
+
+    const otherChannel = stepSimulation(
+      {
+        ...sim,
+        robots: [
+          { ...createRobotState(3, 2, 1, 'robot-1') },
+          { ...createRobotState(1, 1, 1, 'robot-2') },
+        ],
+      },
+      ['WAIT', 'MOVE_FORWARD'],
+    );
+
+    expect(otherChannel.robots[1].x).toBe(1);
+    expect(otherChannel.openChannels).toEqual([2]);
+  });
+
+  it('raises the global signal for the tick after a robot signals', () => {
+    const world = buildOpenWorld();
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 0, intervalTicks: 0 },
+    });
+    const robots = [
+      { ...createRobotState(1, 1, 1, 'robot-1') },
+      { ...createRobotState(3, 1, 3, 'robot-2') },
+    ];
+    const signalled = stepSimulation({ ...sim, robots }, ['SIGNAL', 'WAIT']);
+
+    expect(signalled.signalRaised).toBe(true);
+    expect(signalled.robots[0].x).toBe(1);
+
+    const cleared = stepSimulation(signalled, ['WAIT', 'WAIT']);
+
+    expect(cleared.signalRaised).toBe(false);
+  });
+
+  it('builds a bridge over water only while build skills remain', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [TileType.Wall, TileType.Empty, TileType.Water, TileType.Wall],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+      skills: { build: 1 },
+    });
+    const built = stepSimulation(sim, ['BUILD_BRIDGE']);
+
+    expect(built.world.grid[1][2]).toBe(TileType.Empty);
+    expect(built.skills.build).toBe(0);
+
+    const noSkills = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+    });
+    const unchanged = stepSimulation(noSkills, ['BUILD_BRIDGE']);
+
+    expect(unchanged.world.grid[1][2]).toBe(TileType.Water);
+  });
+
+  it('digs through breakable walls but not solid walls', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [TileType.Wall, TileType.Empty, TileType.BreakableWall, TileType.Wall],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+      skills: { dig: 2 },
+    });
+    const dug = stepSimulation(sim, ['DIG']);
+    const moved = stepSimulation(dug, ['MOVE_FORWARD']);
+    const solid = stepSimulation(moved, ['DIG']);
+
+    expect(dug.world.grid[1][2]).toBe(TileType.Empty);
+    expect(moved.robots[0].x).toBe(2);
+    expect(solid.skills.dig).toBe(1);
+  });
+
+  it('turns robots around when they walk into a blocker', () => {
+    const world = buildOpenWorld();
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 0, intervalTicks: 0 },
+      skills: { block: 1 },
+    });
+    const blocked = stepSimulation(
+      {
+        ...sim,
+        robots: [
+          { ...createRobotState(3, 1, 3, 'robot-1') },
+          { ...createRobotState(1, 1, 1, 'robot-2') },
+        ],
+      },
+      ['BLOCK', 'MOVE_FORWARD'],
+    );
+    const reversed = stepSimulation(blocked, [undefined, 'MOVE_FORWARD']);
+
+    expect(blocked.robots[0].isBlocker).toBe(true);
+    expect(blocked.skills.block).toBe(0);
+    expect(reversed.robots[1].x).toBe(2);
+    expect(reversed.robots[1].direction).toBe(3);
+  });
+
+  it('carries robots along conveyors unless the next tile is taken', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [
+        TileType.Wall,
+        TileType.ConveyorEast,
+        TileType.ConveyorEast,
+        TileType.ConveyorEast,
+        TileType.Wall,
+      ],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 0, count: 0, intervalTicks: 0 },
+    });
+    const next = stepSimulation(
+      {
+        ...sim,
+        robots: [
+          { ...createRobotState(1, 1, 0, 'robot-1') },
+          { ...createRobotState(3, 1, 0, 'robot-2') },
+        ],
+      },
+      ['WAIT', 'WAIT'],
+    );
+
+    expect(next.robots[0].x).toBe(2);
+    expect(next.robots[1].x).toBe(3);
+
+    const queued = stepSimulation(next, ['WAIT', 'WAIT']);
+
+    expect(queued.robots[0].x).toBe(2);
+    expect(queued.robots[0].direction).toBe(0);
+  });
+
+  it('moves robots standing nose to tail on a conveyor together', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [
+        TileType.Wall,
+        TileType.ConveyorEast,
+        TileType.ConveyorEast,
+        TileType.Empty,
+        TileType.Wall,
+      ],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 0, count: 0, intervalTicks: 0 },
+    });
+    const back = createRobotState(1, 1, 0, 'robot-1');
+    const front = createRobotState(2, 1, 0, 'robot-2');
+
+    const backFirst = stepSimulation({ ...sim, robots: [back, front] }, ['WAIT', 'WAIT']);
+    const frontFirst = stepSimulation({ ...sim, robots: [front, back] }, ['WAIT', 'WAIT']);
+
+    expect(backFirst.robots.map((robot) => robot.x)).toEqual([2, 3]);
+    expect(frontFirst.robots.map((robot) => robot.x)).toEqual([3, 2]);
+  });
+
+  it('teleports robots to the paired pad when it is free', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [
+        TileType.Wall,
+        TileType.Empty,
+        TileType.Teleporter,
+        TileType.Wall,
+        TileType.Teleporter,
+        TileType.Goal,
+      ],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const teleporters = [
+      { x: 2, y: 1, id: 'A' },
+      { x: 4, y: 1, id: 'A' },
+    ];
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+      exits: [{ x: 5, y: 1 }],
+      teleporters,
+    });
+    const teleported = stepSimulation(sim, ['MOVE_FORWARD']);
+
+    expect(teleported.robots[0].x).toBe(4);
+    expect(teleported.robots[0].direction).toBe(1);
+
+    const saved = stepSimulation(teleported, ['MOVE_FORWARD']);
+
+    expect(saved.status).toBe('won');
+
+    const blocked = stepSimulation(
+      {
+        ...sim,
+        robots: [
+          { ...createRobotState(4, 1, 3, 'robot-1') },
+          { ...createRobotState(1, 1, 1, 'robot-2') },
+        ],
+      },
+      ['WAIT', 'MOVE_FORWARD'],
+    );
+
+    expect(blocked.robots[1].x).toBe(2);
+  });
+
+  it('lets only robots carrying the matching key through locked doors', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [
+        TileType.Wall,
+        TileType.Empty,
+        TileType.Key,
+        TileType.LockedDoor,
+        TileType.Goal,
+        TileType.Wall,
+      ],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+      exits: [{ x: 4, y: 1 }],
+    });
+    const withoutKey = stepSimulation(
+      { ...sim, robots: [createRobotState(2, 1, 1, 'robot-1')] },
+      ['MOVE_FORWARD'],
+    );
+
+    expect(withoutKey.robots[0].x).toBe(2);
+
+    const pickedUp = stepSimulation(sim, ['MOVE_FORWARD']);
+
+    expect(pickedUp.robots[0].inventory).toEqual(['key']);
+    expect(pickedUp.itemsCollected).toBe(1);
+    expect(pickedUp.world.grid[1][2]).toBe(TileType.Empty);
+
+    const unlocked = stepSimulation(pickedUp, ['MOVE_FORWARD']);
+
+    expect(unlocked.robots[0].x).toBe(3);
+
+    const wrongKey = stepSimulation(
+      { ...pickedUp, items: [{ x: 3, y: 1, item: 'red' }] },
+      ['MOVE_FORWARD'],
+    );
+
+    expect(wrongKey.robots[0].x).toBe(2);
+  });
+
+  it('pushes crates into free tiles, water and onto pressure plates', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [
+        TileType.Wall,
+        TileType.Empty,
+        TileType.Empty,
+        TileType.PressurePlate,
+        TileType.Wall,
+        TileType.Wall,
+      ],
+      [
+        TileType.Wall,
+        TileType.Empty,
+        TileType.Empty,
+        TileType.Water,
+        TileType.Goal,
+        TileType.Wall,
+      ],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const sim = createSimulation({
+      world,
+      spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+      exits: [{ x: 4, y: 2 }],
+      crates: [
+        { x: 2, y: 1 },
+        { x: 2, y: 2 },
+      ],
+    });
+    const onPlate = stepSimulation(sim, ['MOVE_FORWARD']);
+
+    expect(onPlate.robots[0].x).toBe(2);
+    expect(onPlate.crates).toContainEqual({ x: 3, y: 1 });
+    expect(onPlate.openChannels).toEqual([0]);
+
+    const stuck = stepSimulation(onPlate, ['MOVE_FORWARD']);
+
+    expect(stuck.robots[0].x).toBe(2);
+    expect(stuck.crates).toContainEqual({ x: 3, y: 1 });
+
+    const filled = stepSimulation(
+      { ...sim, robots: [createRobotState(1, 2, 1, 'robot-1')] },
+      ['MOVE_FORWARD'],
+    );
+
+    expect(filled.world.grid[2][3]).toBe(TileType.Empty);
+    expect(filled.crates).toEqual([{ x: 2, y: 1 }]);
+    expect(filled.robots[0].x).toBe(2);
+  });
+
+  it('logs typed events for each tick', () => {
+    const world = createWorld([
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+      [TileType.Wall, TileType.Empty, TileType.Empty, TileType.Water, TileType.Wall],
+      [TileType.Wall, TileType.Empty, TileType.PressurePlate, TileType.Goal, TileType.Wall],
+      [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    ]);
+    const sim = createSimulation({
+      world,
+      spawner: {
+        x: 1,
+        y: 1,
+        dir: 1,
+        count: 2,
+        intervalTicks: 0,
+        starts: [
+          { x: 1, y: 1, dir: 1 },
+          { x: 1, y: 2, dir: 1 },
+        ],
+      },
+      exits: [{ x: 3, y: 2 }],
+      requiredSaved: 2,
+    });
+
+    expect(sim.events.map((event) => event.type)).toEqual(['spawned', 'spawned']);
+
+    const first = stepSimulation(sim, ['MOVE_FORWARD', 'MOVE_FORWARD']);
+
+    expect(first.events).toEqual([
+      { type: 'moved', tick: 1, robotId: 'robot-1', x: 2, y: 1 },
+      { type: 'moved', tick: 1, robotId: 'robot-2', x: 2, y: 2 },
+      { type: 'door_opened', tick: 1, channel: 0 },
+    ]);
+
+    const second = stepSimulation(first, ['MOVE_FORWARD', 'MOVE_FORWARD']);
+
+    expect(second.events).toEqual([
+      { type: 'moved', tick: 2, robotId: 'robot-1', x: 3, y: 1 },
+      { type: 'moved', tick: 2, robotId: 'robot-2', x: 3, y: 2 },
+      { type: 'drowned', tick: 2, robotId: 'robot-1', x: 3, y: 1 },
+      { type: 'saved', tick: 2, robotId: 'robot-2', x: 3, y: 2 },
+      { type: 'door_closed', tick: 2, channel: 0 },
+    ]);
+  });
 });
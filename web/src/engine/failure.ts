@@ -0,0 +1,165 @@
+import type { RobotState } from './robot';
+import { getForwardPosition } from './rules';
+import type { SimulationEvent, SimulationState } from './sim';
+import { isWall } from './world';
+
+export type FailureKind =
+  | 'hazard'
+  | 'drowned'
+  | 'deadlock'
+  | 'program_ended'
+  | 'time_limit'
+  | 'loop'
+  | 'quota';
+
+export interface FailureExplanation {
+  kind: FailureKind;
+  robotIds: string[];
+  tick: number;
+  message: string;
+}
+
+const robotNumber = (robotId: string): string => robotId.replace(/^robot-/, '');
+
+const joinRobotNumbers = (robotIds: string[]): string => {
+  const numbers = robotIds.map(robotNumber);
+  if (numbers.length <= 1) {
+    return numbers.join('');
+  }
+  return `${numbers.slice(0, -1).join(', ')} and ${numbers[numbers.length - 1]}`;
+};
+
+const isStillActive = (robot: RobotState): boolean =>
+  robot.alive && !robot.reachedGoal && !robot.isBlocker;
+
+const lastActiveTick = (events: SimulationEvent[], robotId: string): number =>
+  events.reduce(
+    (latest, event) =>
+      'robotId' in event && event.robotId === robotId && event.type !== 'blocked_by_robot'
+        ? Math.max(latest, event.tick)
+        : latest,
+    0,
+  );
+
+const listDeadlocks = (
+  robots: RobotState[],
+  events: SimulationEvent[],
+  stepCount: number,
+): FailureExplanation[] => {
+  const active = robots.filter(isStillActive);
+  const byPosition = new Map(active.map((robot) => [`${robot.x},${robot.y}`, robot]));
+  const blockedIds = new Set(
+    events
+      .filter((event) => event.type === 'blocked_by_robot')
+      .map((event) => ('robotId' in event ? event.robotId : '')),
+  );
+  const seen = new Set<string>();
+  const deadlocks: FailureExplanation[] = [];
+  active.forEach((robot) => {
+    const forward = getForwardPosition(robot, robot.direction);
+    const other = byPosition.get(`${forward.x},${forward.y}`);
+    if (!other || seen.has(robot.id) || seen.has(other.id)) {
+      return;
+    }
+    const otherForward = getForwardPosition(other, other.direction);
+    if (otherForward.x !== robot.x || otherForward.y !== robot.y) {
+      return;
+    }
+    if (!blockedIds.has(robot.id) && !blockedIds.has(other.id)) {
+      return;
+    }
+    seen.add(robot.id);
+    seen.add(other.id);
+    const robotIds = [robot.id, other.id].sort();
+    deadlocks.push({
+      kind: 'deadlock',
+      robotIds,
+      tick: Math.min(
+        stepCount,
+        Math.max(lastActiveTick(events, robot.id), lastActiveTick(events, other.id)) + 1,
+      ),
+      message: `Robots ${joinRobotNumbers(robotIds)} were stuck waiting for each other.`,
+    });
+  });
+  return deadlocks;
+};
+
+export const explainFailure = (
+  simulation: SimulationState,
+  events: SimulationEvent[],
+  finishedRobotIds: string[] = [],
+  loopStartTick?: number,
+): FailureExplanation[] => {
+  const explanations: FailureExplanation[] = [];
+
+  if (loopStartTick !== undefined) {
+    explanations.push({
+      kind: 'loop',
+      robotIds: [],
+      tick: loopStartTick,
+      message: `From tick ${loopStartTick} on, the robots kept repeating the same moves.`,
+    });
+  }
+
+  events.forEach((event) => {
+    if (event.type === 'drowned' || event.type === 'died_on_hazard') {
+      explanations.push({
+        kind: event.type === 'drowned' ? 'drowned' : 'hazard',
+        robotIds: [event.robotId],
+        tick: event.tick,
+        message:
+          event.type === 'drowned'
+            ? `${event.robotId} drowned at (${event.x}, ${event.y}) on tick ${event.tick}.`
+            : `${event.robotId} hit a hazard at (${event.x}, ${event.y}) on tick ${event.tick}.`,
+      });
+    }
+  });
+
+  const deadlocks = listDeadlocks(simulation.robots, events, simulation.stepCount);
+  explanations.push(...deadlocks);
+  const deadlocked = new Set(deadlocks.flatMap((deadlock) => deadlock.robotIds));
+
+  const finished = new Set(finishedRobotIds);
+  simulation.robots
+    .filter((robot) => isStillActive(robot) && finished.has(robot.id))
+    .forEach((robot) => {
+      const forward = getForwardPosition(robot, robot.direction);
+      explanations.push({
+        kind: 'program_ended',
+        robotIds: [robot.id],
+        tick: lastActiveTick(events, robot.id),
+        message: isWall(simulation.world, forward.x, forward.y)
+          ? `${robot.id} ran out of blocks while facing a wall.`
+          : `${robot.id} ran out of blocks at (${robot.x}, ${robot.y}).`,
+      });
+    });
+
+  if (simulation.stepCount >= simulation.maxSteps) {
+    const stillGoing = simulation.robots
+      .filter(
+        (robot) => isStillActive(robot) && !finished.has(robot.id) && !deadlocked.has(robot.id),
+      )
+      .map((robot) => robot.id);
+    if (stillGoing.length > 0) {
+      explanations.push({
+        kind: 'time_limit',
+        robotIds: stillGoing,
+        tick: simulation.stepCount,
+        message: `Time ran out on tick ${simulation.stepCount} with ${
+          stillGoing.length === 1 ? 'robot' : 'robots'
+        } ${joinRobotNumbers(stillGoing)} still going.`,
+      });
+    }
+  }
+
+  if (explanations.length === 0 && simulation.savedCount < simulation.requiredSaved) {
+    explanations.push({
+      kind: 'quota',
+      robotIds: [],
+      tick: simulation.stepCount,
+      message: `Only ${simulation.savedCount} of ${simulation.requiredSaved} robots reached the exit.`,
+    });
+  }
+
+  return explanations;
+};
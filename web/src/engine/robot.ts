@@ -4,7 +4,11 @@ export type RobotAction =
   | 'MOVE_FORWARD'
   | 'TURN_LEFT'
   | 'TURN_RIGHT'
-  | 'WAIT';
+  | 'WAIT'
+  | 'SIGNAL'
+  | 'BUILD_BRIDGE'
+  | 'BLOCK'
+  | 'DIG';
 
 export interface RobotState {
   id: string;
@@ -13,6 +17,8 @@ export interface RobotState {
   direction: Direction;
   alive: boolean;
   reachedGoal: boolean;
+  isBlocker: boolean;
+  inventory: string[];
 }
 
 export const createRobotState = (
@@ -27,4 +33,6 @@ export const createRobotState = (
   direction,
   alive: true,
   reachedGoal: false,
+  isBlocker: false,
+  inventory: [],
 });
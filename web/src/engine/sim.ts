@@ -1,7 +1,20 @@
 import type { Direction, RobotAction, RobotState } from './robot';
 import type { World } from './world';
-import { applyAction, getForwardPosition, type Position } from './rules';
-import { TileType, isDoor, isGoal, isPressurePlate, isWall } from './world';
+import { applyAction, getForwardPosition, turnLeft, type Position } from './rules';
+import {
+  TileType,
+  getConveyorDirection,
+  isBreakableWall,
+  isDoor,
+  isGoal,
+  isHazard,
+  isKey,
+  isLockedDoor,
+  isRaft,
+  isTeleporter,
+  isWall,
+  isWater,
+} from './world';
 
 export type SimulationStatus = 'running' | 'won' | 'lost';
 
@@ -19,6 +32,59 @@ export interface Exit {
   y: number;
 }
 
+export type ChannelId = number;
+
+export const DEFAULT_CHANNEL: ChannelId = 0;
+
+export interface TileChannel {
+  x: number;
+  y: number;
+  channel: ChannelId;
+}
+
+export interface TeleporterPad {
+  x: number;
+  y: number;
+  id: string;
+}
+
+export type ItemId = string;
+
+export const DEFAULT_ITEM: ItemId = 'key';
+
+export interface TileItem {
+  x: number;
+  y: number;
+  item: ItemId;
+}
+
+export interface CrateState {
+  x: number;
+  y: number;
+}
+
+export type RobotEventType =
+  | 'moved'
+  | 'turned'
+  | 'waited'
+  | 'bumped_wall'
+  | 'blocked_by_robot'
+  | 'died_on_hazard'
+  | 'drowned'
+  | 'saved'
+  | 'spawned';
+
+export type SimulationEvent =
+  | { type: RobotEventType; tick: number; robotId: string; x: number; y: number }
+  | { type: 'picked_up'; tick: number; robotId: string; x: number; y: number; item: ItemId }
+  | { type: 'spawn_delayed'; tick: number; x: number; y: number }
+  | { type: 'door_opened' | 'door_closed'; tick: number; channel: ChannelId }
+  | { type: 'raft_departed' | 'raft_docked'; tick: number; x: number; y: number };
+
+export type SkillType = 'build' | 'block' | 'dig';
+
+export type SkillCounts = Record<SkillType, number>;
+
 export interface SimulationState {
   world: World;
   robots: RobotState[];
@@ -31,8 +97,16 @@ export interface SimulationState {
   savedCount: number;
   spawnedCount: number;
   nextSpawnTick: number | null;
-  doorUnlocked: boolean;
+  channels: TileChannel[];
+  openChannels: ChannelId[];
+  signalRaised: boolean;
+  skills: SkillCounts;
+  teleporters: TeleporterPad[];
+  items: TileItem[];
+  itemsCollected: number;
   raftStates: RaftState[];
+  crates: CrateState[];
+  events: SimulationEvent[];
   jettyPositions: Position[];
 }
 
@@ -40,6 +114,11 @@ export interface SimulationConfig {
   world: World;
   spawner: Spawner;
   exits?: Exit[];
+  channels?: TileChannel[];
+  skills?: Partial<SkillCounts>;
+  teleporters?: TeleporterPad[];
+  items?: TileItem[];
+  crates?: CrateState[];
   maxSteps?: number;
   requiredSaved?: number;
 }
@@ -93,6 +172,8 @@ const createSpawnedRobot = (
   direction: startOverride?.dir ?? spawner.dir,
   alive: true,
   reachedGoal: false,
+  isBlocker: false,
+  inventory: [],
 });
 
 const initializeRobots = (spawner: Spawner, world: World, exits: Exit[]): {
@@ -160,12 +241,17 @@ export const createSimulation = ({
   world,
   spawner,
   exits = [],
+  channels = [],
+  skills = {},
+  teleporters = [],
+  items = [],
+  crates = [],
   maxSteps = 200,
   requiredSaved = 1,
 }: SimulationConfig): SimulationState => {
   const { robots, spawnedCount, nextSpawnTick } = initializeRobots(spawner, world, exits);
   const { activeRobots, savedCount } = splitRobotsByGoal(robots);
-  const doorUnlocked = isPressurePlatePressed(world, activeRobots);
+  const openChannels = listPressedChannels(world, activeRobots, channels, crates);
   const jettyPositions = listPositionsForTile(world, TileType.Jetty);
   const raftStates = initializeRafts(world, jettyPositions);
   return {
@@ -180,8 +266,42 @@ export const createSimulation = ({
     savedCount,
     spawnedCount,
     nextSpawnTick,
-    doorUnlocked,
+    channels,
+    openChannels,
+    signalRaised: false,
+    skills: {
+      build: Math.max(0, skills.build ?? 0),
+      block: Math.max(0, skills.block ?? 0),
+      dig: Math.max(0, skills.dig ?? 0),
+    },
+    teleporters,
+    items,
+    itemsCollected: 0,
     raftStates,
+    crates,
+    events: [
+      ...robots.map((robot): SimulationEvent => ({
+        type: 'spawned',
+        tick: 0,
+        robotId: robot.id,
+        x: robot.x,
+        y: robot.y,
+      })),
+      ...robots
+        .filter((robot) => robot.reachedGoal)
+        .map((robot): SimulationEvent => ({
+          type: 'saved',
+          tick: 0,
+          robotId: robot.id,
+          x: robot.x,
+          y: robot.y,
+        })),
+      ...openChannels.map((channel): SimulationEvent => ({
+        type: 'door_opened',
+        tick: 0,
+        channel,
+      })),
+    ],
     jettyPositions,
   };
 };
@@ -189,24 +309,134 @@ export const createSimulation = ({
 const isBlockingRobot = (robot: RobotState): boolean =>
   robot.alive && !robot.reachedGoal;
 
-export const isPressurePlatePressed = (world: World, robots: RobotState[]): boolean => {
+export const getTileChannel = (channels: TileChannel[], x: number, y: number): ChannelId =>
+  channels.find((entry) => entry.x === x && entry.y === y)?.channel ?? DEFAULT_CHANNEL;
+
+export const listPressedChannels = (
+  world: World,
+  robots: RobotState[],
+  channels: TileChannel[] = [],
+  crates: CrateState[] = [],
+): ChannelId[] => {
   const plates = listPositionsForTile(world, TileType.PressurePlate);
   if (plates.length === 0) {
-    return false;
+    return [];
   }
-  const occupied = new Set(
-    robots
-      .filter(isBlockingRobot)
-      .map((robot) => positionKey(robot.x, robot.y)),
-  );
-  return plates.every((plate) => occupied.has(positionKey(plate.x, plate.y)));
+  const occupied = new Set([
+    ...robots.filter(isBlockingRobot).map((robot) => positionKey(robot.x, robot.y)),
+    ...crates.map((crate) => positionKey(crate.x, crate.y)),
+  ]);
+  const pressedByChannel = new Map<ChannelId, boolean>();
+  plates.forEach((plate) => {
+    const channel = getTileChannel(channels, plate.x, plate.y);
+    const pressed = occupied.has(positionKey(plate.x, plate.y));
+    pressedByChannel.set(channel, (pressedByChannel.get(channel) ?? true) && pressed);
+  });
+  return Array.from(pressedByChannel.entries())
+    .filter(([, pressed]) => pressed)
+    .map(([channel]) => channel)
+    .sort((a, b) => a - b);
 };
 
+export const isPressurePlatePressed = (
+  world: World,
+  robots: RobotState[],
+  channels: TileChannel[] = [],
+  channel: ChannelId = DEFAULT_CHANNEL,
+  crates: CrateState[] = [],
+): boolean => listPressedChannels(world, robots, channels, crates).includes(channel);
+
 export const isDoorOpen = (
   world: World,
   robots: RobotState[],
-  doorUnlocked = false,
-): boolean => doorUnlocked || isPressurePlatePressed(world, robots);
+  channels: TileChannel[] = [],
+  channel: ChannelId = DEFAULT_CHANNEL,
+  openChannels: ChannelId[] = [],
+): boolean =>
+  openChannels.includes(channel) || isPressurePlatePressed(world, robots, channels, channel);
+
+export const listOpenDoors = (
+  world: World,
+  robots: RobotState[],
+  channels: TileChannel[] = [],
+  openChannels: ChannelId[] = [],
+): Set<string> => {
+  const pressedChannels = new Set([
+    ...openChannels,
+    ...listPressedChannels(world, robots, channels),
+  ]);
+  return new Set(
+    listPositionsForTile(world, TileType.Door)
+      .filter((door) => pressedChannels.has(getTileChannel(channels, door.x, door.y)))
+      .map((door) => positionKey(door.x, door.y)),
+  );
+};
+
+export const getTileItem = (items: TileItem[], x: number, y: number): ItemId =>
+  items.find((entry) => entry.x === x && entry.y === y)?.item ?? DEFAULT_ITEM;
+
+export const isLockedFor = (
+  world: World,
+  items: TileItem[],
+  robot: RobotState,
+  x: number,
+  y: number,
+): boolean => isLockedDoor(world, x, y) && !robot.inventory.includes(getTileItem(items, x, y));
+
+export const listUnlockedDoors = (
+  world: World,
+  items: TileItem[],
+  robot: RobotState,
+  openDoors: Set<string>,
+): Set<string> => {
+  if (robot.inventory.length === 0) {
+    return openDoors;
+  }
+  const unlocked = listPositionsForTile(world, TileType.LockedDoor).filter(
+    (door) => !isLockedFor(world, items, robot, door.x, door.y),
+  );
+  return new Set([...openDoors, ...unlocked.map((door) => positionKey(door.x, door.y))]);
+};
+
+const collectItems = (
+  world: World,
+  items: TileItem[],
+  robots: RobotState[],
+): { world: World; robots: RobotState[]; collected: number } => {
+  let nextWorld = world;
+  let collected = 0;
+  const nextRobots = robots.map((robot) => {
+    if (!isBlockingRobot(robot) || !isKey(nextWorld, robot.x, robot.y)) {
+      return robot;
+    }
+    nextWorld = replaceTile(nextWorld, robot.x, robot.y, TileType.Empty);
+    collected += 1;
+    return { ...robot, inventory: [...robot.inventory, getTileItem(items, robot.x, robot.y)] };
+  });
+  return { world: nextWorld, robots: nextRobots, collected };
+};
+
+export const getTeleporterPartner = (
+  world: World,
+  teleporters: TeleporterPad[],
+  x: number,
+  y: number,
+): Position | null => {
+  if (!isTeleporter(world, x, y)) {
+    return null;
+  }
+  const pad = teleporters.find((entry) => entry.x === x && entry.y === y);
+  if (!pad) {
+    return null;
+  }
+  const partner = teleporters.find(
+    (entry) =>
+      entry.id === pad.id &&
+      (entry.x !== x || entry.y !== y) &&
+      isTeleporter(world, entry.x, entry.y),
+  );
+  return partner ? { x: partner.x, y: partner.y } : null;
+};
 
 const buildOccupiedPositions = (robots: RobotState[]): Set<string> =>
   new Set(robots.filter(isBlockingRobot).map((robot) => positionKey(robot.x, robot.y)));
@@ -216,6 +446,67 @@ const isJettyPosition = (jettyPositions: Position[], x: number, y: number): bool
 
 const cloneWorldGrid = (world: World): TileType[][] => world.grid.map((row) => [...row]);
 
+const replaceTile = (world: World, x: number, y: number, tile: TileType): World => {
+  const grid = cloneWorldGrid(world);
+  grid[y][x] = tile;
+  return { ...world, grid };
+};
+
+const pushCrate = (
+  world: World,
+  crates: CrateState[],
+  index: number,
+  direction: Direction,
+  isBlocked: (x: number, y: number) => boolean,
+): { world: World; crates: CrateState[] } | null => {
+  const target = getForwardPosition(crates[index], direction);
+  if (
+    isBlocked(target.x, target.y) ||
+    isRaft(world, target.x, target.y) ||
+    crates.some((crate) => crate.x === target.x && crate.y === target.y)
+  ) {
+    return null;
+  }
+  if (isWater(world, target.x, target.y)) {
+    return {
+      world: replaceTile(world, target.x, target.y, TileType.Empty),
+      crates: crates.filter((_, crateIndex) => crateIndex !== index),
+    };
+  }
+  return {
+    world,
+    crates: crates.map((crate, crateIndex) => (crateIndex === index ? target : crate)),
+  };
+};
+
+const skillByAction: Partial<Record<RobotAction, SkillType>> = {
+  BUILD_BRIDGE: 'build',
+  BLOCK: 'block',
+  DIG: 'dig',
+};
+
+const applySkill = (
+  world: World,
+  robot: RobotState,
+  skill: SkillType,
+): { world: World; robot: RobotState } | null => {
+  const forward = getForwardPosition(robot, robot.direction);
+  switch (skill) {
+    case 'build':
+      return isWater(world, forward.x, forward.y)
+        ? { world: replaceTile(world, forward.x, forward.y, TileType.Empty), robot }
+        : null;
+    case 'dig':
+      return isBreakableWall(world, forward.x, forward.y)
+        ? { world: replaceTile(world, forward.x, forward.y, TileType.Empty), robot }
+        : null;
+    case 'block':
+      return isRaft(world, robot.x, robot.y) ? null : { world, robot: { ...robot, isBlocker: true } };
+    default:
+      return null;
+  }
+};
+
 const moveRafts = (
   state: SimulationState,
   robots: RobotState[],
@@ -311,6 +602,108 @@ const moveRafts = (
   return { world: nextWorld, robots: nextRobots, raftStates: nextRaftStates };
 };
 
+const moveConveyors = (
+  world: World,
+  robots: RobotState[],
+  isBlocked: (x: number, y: number) => boolean,
+): RobotState[] => {
+  const occupied = buildOccupiedPositions(robots);
+  const nextRobots = [...robots];
+  const waiting = new Set(
+    robots.flatMap((robot, index) =>
+      isBlockingRobot(robot) &&
+      !robot.isBlocker &&
+      getConveyorDirection(world, robot.x, robot.y) !== null
+        ? [index]
+        : [],
+    ),
+  );
+  let moved = true;
+  while (moved) {
+    moved = false;
+    waiting.forEach((index) => {
+      const robot = nextRobots[index];
+      const direction = getConveyorDirection(world, robot.x, robot.y);
+      if (direction === null) {
+        waiting.delete(index);
+        return;
+      }
+      const target = getForwardPosition(robot, direction);
+      const targetKey = positionKey(target.x, target.y);
+      if (occupied.has(targetKey) || isBlocked(target.x, target.y)) {
+        return;
+      }
+      occupied.delete(positionKey(robot.x, robot.y));
+      occupied.add(targetKey);
+      nextRobots[index] = {
+        ...robot,
+        x: target.x,
+        y: target.y,
+        alive: !isHazard(world, target.x, target.y),
+      };
+      waiting.delete(index);
+      moved = true;
+    });
+  }
+  return nextRobots;
+};
+
+const listOutcomeEvents = (
+  world: World,
+  before: RobotState[],
+  after: RobotState[],
+  tick: number,
+): SimulationEvent[] => {
+  const beforeById = new Map(before.map((robot) => [robot.id, robot]));
+  const events: SimulationEvent[] = [];
+  after.forEach((robot) => {
+    const previous = beforeById.get(robot.id);
+    const base = { tick, robotId: robot.id, x: robot.x, y: robot.y };
+    if (!previous) {
+      return;
+    }
+    if (robot.inventory.length > previous.inventory.length) {
+      events.push({ ...base, type: 'picked_up', item: robot.inventory[robot.inventory.length - 1] });
+    }
+    if (previous.alive && !robot.alive) {
+      events.push({ ...base, type: isWater(world, robot.x, robot.y) ? 'drowned' : 'died_on_hazard' });
+    }
+    if (!previous.reachedGoal && robot.reachedGoal) {
+      events.push({ ...base, type: 'saved' });
+    }
+  });
+  return events;
+};
+
+const listRaftEvents = (
+  before: RaftState[],
+  after: RaftState[],
+  tick: number,
+): SimulationEvent[] =>
+  after.flatMap((raft, index): SimulationEvent[] => {
+    const previous = before[index];
+    if (!previous || (previous.x === raft.x && previous.y === raft.y)) {
+      return [];
+    }
+    return [
+      { type: 'raft_departed', tick, x: previous.x, y: previous.y },
+      { type: 'raft_docked', tick, x: raft.x, y: raft.y },
+    ];
+  });
+
+const listDoorEvents = (
+  before: ChannelId[],
+  after: ChannelId[],
+  tick: number,
+): SimulationEvent[] => [
+  ...after
+    .filter((channel) => !before.includes(channel))
+    .map((channel): SimulationEvent => ({ type: 'door_opened', tick, channel })),
+  ...before
+    .filter((channel) => !after.includes(channel))
+    .map((channel): SimulationEvent => ({ type: 'door_closed', tick, channel })),
+];
+
 const spawnNextRobot = (
   state: SimulationState,
   occupied: Set<string>,
@@ -352,17 +745,49 @@ export const stepSimulation = (
     return state;
   }
 
+  const tick = state.stepCount + 1;
   const occupied = buildOccupiedPositions(state.robots);
   const spawned = spawnNextRobot(state, occupied);
+  const events: SimulationEvent[] = [];
+  if (spawned.spawnedCount > state.spawnedCount) {
+    spawned.robots.slice(state.robots.length).forEach((robot) => {
+      events.push({ type: 'spawned', tick, robotId: robot.id, x: robot.x, y: robot.y });
+    });
+  } else if (
+    state.spawner.intervalTicks > 0 &&
+    state.spawnedCount < state.spawner.count &&
+    state.nextSpawnTick !== null &&
+    state.stepCount >= state.nextSpawnTick
+  ) {
+    events.push({ type: 'spawn_delayed', tick, x: state.spawner.x, y: state.spawner.y });
+  }
   const nextOccupied = buildOccupiedPositions(spawned.robots);
-  const platePressed = isPressurePlatePressed(state.world, spawned.robots);
-  const doorOpen = isDoorOpen(state.world, spawned.robots);
+  const blockerPositions = new Set(
+    spawned.robots
+      .filter((robot) => robot.isBlocker && isBlockingRobot(robot))
+      .map((robot) => positionKey(robot.x, robot.y)),
+  );
+  const openDoors = listOpenDoors(
+    state.world,
+    spawned.robots,
+    state.channels,
+    listPressedChannels(state.world, spawned.robots, state.channels, state.crates),
+  );
+  let world = state.world;
+  let skills = state.skills;
+  let crates = state.crates;
+  const hasCrate = (x: number, y: number) =>
+    crates.some((crate) => crate.x === x && crate.y === y);
   const isBlocked = (x: number, y: number) =>
-    isWall(state.world, x, y) || (isDoor(state.world, x, y) && !doorOpen);
+    isWall(world, x, y) ||
+    (isDoor(world, x, y) && !openDoors.has(positionKey(x, y)));
   let nextRobots = spawned.robots.map((robot, index) => {
     const action = actions[index];
+    if (robot.isBlocker) {
+      return robot;
+    }
     if (!action) {
-      return applyExitStatus(state.world, state.exits, robot);
+      return applyExitStatus(world, state.exits, robot);
     }
 
     let nextRobot = robot;
@@ -371,16 +796,83 @@ export const stepSimulation = (
       nextOccupied.delete(positionKey(robot.x, robot.y));
     }
 
-    if (action === 'MOVE_FORWARD' && robot.alive && !robot.reachedGoal) {
+    const skill = skillByAction[action];
+    if (skill) {
+      const skillResult =
+        wasBlocking && skills[skill] > 0 ? applySkill(world, robot, skill) : null;
+      if (skillResult) {
+        world = skillResult.world;
+        nextRobot = skillResult.robot;
+        skills = { ...skills, [skill]: skills[skill] - 1 };
+        if (nextRobot.isBlocker) {
+          blockerPositions.add(positionKey(nextRobot.x, nextRobot.y));
+        }
+      }
+    } else if (action === 'MOVE_FORWARD' && robot.alive && !robot.reachedGoal) {
       const forward = getForwardPosition(robot, robot.direction);
-      if (!nextOccupied.has(positionKey(forward.x, forward.y)) && !isBlocked(forward.x, forward.y)) {
-        nextRobot = applyAction(state.world, robot, action, { isBlocked });
+      const forwardKey = positionKey(forward.x, forward.y);
+      if (blockerPositions.has(forwardKey)) {
+        nextRobot = { ...robot, direction: turnLeft(turnLeft(robot.direction)) };
+      } else if (
+        !nextOccupied.has(forwardKey) &&
+        !isBlocked(forward.x, forward.y) &&
+        !isLockedFor(world, state.items, robot, forward.x, forward.y)
+      ) {
+        const crateIndex = crates.findIndex(
+          (crate) => crate.x === forward.x && crate.y === forward.y,
+        );
+        const push =
+          crateIndex >= 0
+            ? pushCrate(
+                world,
+                crates,
+                crateIndex,
+                robot.direction,
+                (x, y) =>
+                  isBlocked(x, y) || isLockedDoor(world, x, y) || nextOccupied.has(positionKey(x, y)),
+              )
+            : null;
+        if (push) {
+          world = push.world;
+          crates = push.crates;
+        }
+        if (crateIndex < 0 || push) {
+          nextRobot = applyAction(world, robot, action, { isBlocked });
+          const partner = getTeleporterPartner(world, state.teleporters, nextRobot.x, nextRobot.y);
+          if (
+            partner &&
+            nextRobot.alive &&
+            !nextOccupied.has(positionKey(partner.x, partner.y)) &&
+            !hasCrate(partner.x, partner.y)
+          ) {
+            nextRobot = { ...nextRobot, x: partner.x, y: partner.y };
+          }
+        }
+      }
+      if (nextRobot.x === robot.x && nextRobot.y === robot.y) {
+        events.push({
+          type:
+            nextOccupied.has(forwardKey) || blockerPositions.has(forwardKey)
+              ? 'blocked_by_robot'
+              : 'bumped_wall',
+          tick,
+          robotId: robot.id,
+          x: robot.x,
+          y: robot.y,
+        });
       }
     } else {
-      nextRobot = applyAction(state.world, robot, action, { isBlocked });
+      nextRobot = applyAction(world, robot, action, { isBlocked });
     }
 
-    nextRobot = applyExitStatus(state.world, state.exits, nextRobot);
+    nextRobot = applyExitStatus(world, state.exits, nextRobot);
+    if (nextRobot.x !== robot.x || nextRobot.y !== robot.y) {
+      events.push({ type: 'moved', tick, robotId: robot.id, x: nextRobot.x, y: nextRobot.y });
+    } else if (nextRobot.direction !== robot.direction && action !== 'MOVE_FORWARD') {
+      events.push({ type: 'turned', tick, robotId: robot.id, x: robot.x, y: robot.y });
+    } else if (action === 'WAIT' && wasBlocking) {
+      events.push({ type: 'waited', tick, robotId: robot.id, x: robot.x, y: robot.y });
+    }
 
     if (isBlockingRobot(nextRobot)) {
       nextOccupied.add(positionKey(nextRobot.x, nextRobot.y));
@@ -388,15 +880,39 @@ export const stepSimulation = (
 
     return nextRobot;
   });
-  const raftMoveResult = moveRafts(state, nextRobots);
-  const raftAdjustedRobots = raftMoveResult.robots.map((robot) =>
-    applyExitStatus(raftMoveResult.world, state.exits, robot),
+  const raftMoveResult = moveRafts({ ...state, world }, nextRobots);
+  const conveyedRobots = moveConveyors(
+    raftMoveResult.world,
+    raftMoveResult.robots,
+    (x, y) =>
+      isWall(raftMoveResult.world, x, y) ||
+      isLockedDoor(raftMoveResult.world, x, y) ||
+      hasCrate(x, y) ||
+      (isDoor(raftMoveResult.world, x, y) && !openDoors.has(positionKey(x, y))),
+  );
+  const pickup = collectItems(raftMoveResult.world, state.items, conveyedRobots);
+  const itemsCollected = state.itemsCollected + pickup.collected;
+  const raftAdjustedRobots = pickup.robots.map((robot) =>
+    applyExitStatus(pickup.world, state.exits, robot),
+  );
+  events.push(
+    ...listRaftEvents(state.raftStates, raftMoveResult.raftStates, tick),
+    ...listOutcomeEvents(pickup.world, spawned.robots, raftAdjustedRobots, tick),
   );
   const { activeRobots, savedCount: savedThisStep } = splitRobotsByGoal(raftAdjustedRobots);
   const savedCount = state.savedCount + savedThisStep;
-  const doorUnlocked = isPressurePlatePressed(raftMoveResult.world, activeRobots);
-  const stepCount = state.stepCount + 1;
-  const hasActiveRobot = activeRobots.some((robot) => robot.alive);
+  const openChannels = listPressedChannels(
+    pickup.world,
+    activeRobots,
+    state.channels,
+    crates,
+  );
+  events.push(...listDoorEvents(state.openChannels, openChannels, tick));
+  const signalRaised = spawned.robots.some(
+    (robot, index) => actions[index] === 'SIGNAL' && isBlockingRobot(robot),
+  );
+  const stepCount = tick;
+  const hasActiveRobot = activeRobots.some((robot) => robot.alive && !robot.isBlocker);
   const hasRemainingSpawns = spawned.spawnedCount < state.spawner.count;
 
   if (savedCount >= state.requiredSaved) {
@@ -407,9 +923,14 @@ export const stepSimulation = (
       nextSpawnTick: spawned.nextSpawnTick,
       status: 'won',
       stepCount,
-      doorUnlocked,
-      world: raftMoveResult.world,
+      openChannels,
+      signalRaised,
+      skills,
+      itemsCollected,
+      world: pickup.world,
       raftStates: raftMoveResult.raftStates,
+      crates,
+      events,
       savedCount,
     };
   }
@@ -422,9 +943,14 @@ export const stepSimulation = (
       nextSpawnTick: spawned.nextSpawnTick,
       status: 'lost',
       stepCount,
-      doorUnlocked,
-      world: raftMoveResult.world,
+      openChannels,
+      signalRaised,
+      skills,
+      itemsCollected,
+      world: pickup.world,
       raftStates: raftMoveResult.raftStates,
+      crates,
+      events,
       savedCount,
     };
   }
@@ -437,9 +963,14 @@ export const stepSimulation = (
       nextSpawnTick: spawned.nextSpawnTick,
       status: 'lost',
       stepCount,
-      doorUnlocked,
-      world: raftMoveResult.world,
+      openChannels,
+      signalRaised,
+      skills,
+      itemsCollected,
+      world: pickup.world,
       raftStates: raftMoveResult.raftStates,
+      crates,
+      events,
       savedCount,
     };
   }
@@ -450,9 +981,44 @@ export const stepSimulation = (
     spawnedCount: spawned.spawnedCount,
     nextSpawnTick: spawned.nextSpawnTick,
     stepCount,
-    doorUnlocked,
-    world: raftMoveResult.world,
+    openChannels,
+    signalRaised,
+    skills,
+    itemsCollected,
+    world: pickup.world,
     raftStates: raftMoveResult.raftStates,
+    crates,
+    events,
     savedCount,
   };
 };
+
+export const fingerprintSimulation = (
+  state: SimulationState,
+  programCounters: string[] = [],
+): string => {
+  const robots = state.robots.map(
+    (robot) =>
+      `${robot.id}@${robot.x},${robot.y},${robot.direction},${robot.alive ? 1 : 0}${
+        robot.isBlocker ? 'b' : ''
+      }[${robot.inventory.join(',')}]`,
+  );
+  const rafts = state.raftStates.map(
+    (raft) => `${raft.x},${raft.y},${raft.dockIndex},${raft.returnIndex ?? '-'}`,
+  );
+  const crates = state.crates.map((crate) => positionKey(crate.x, crate.y));
+  const nextSpawn =
+    state.nextSpawnTick === null || state.spawnedCount >= state.spawner.count
+      ? '-'
+      : Math.max(0, state.nextSpawnTick - state.stepCount);
+  return [
+    robots.join(';'),
+    programCounters.join(';'),
+    state.openChannels.join(','),
+    state.signalRaised ? 1 : 0,
+    rafts.join(';'),
+    crates.join(';'),
+    `${state.skills.build},${state.skills.block},${state.skills.dig}`,
+    `${state.savedCount},${state.spawnedCount},${nextSpawn},${state.itemsCollected}`,
+  ].join('|');
+};
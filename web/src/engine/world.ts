@@ -1,3 +1,5 @@
+import type { Direction } from './robot';
+
 export enum TileType {
   Empty = 0,
   Wall = 1,
@@ -8,6 +10,14 @@ export enum TileType {
   Water = 6,
   Raft = 7,
   Jetty = 8,
+  BreakableWall = 9,
+  ConveyorNorth = 10,
+  ConveyorEast = 11,
+  ConveyorSouth = 12,
+  ConveyorWest = 13,
+  Teleporter = 14,
+  Key = 15,
+  LockedDoor = 16,
 }
 
 export interface World {
@@ -37,7 +47,10 @@ export const getTile = (world: World, x: number, y: number): TileType => {
 };
 
 export const isWall = (world: World, x: number, y: number): boolean =>
-  getTile(world, x, y) === TileType.Wall;
+  getTile(world, x, y) === TileType.Wall || getTile(world, x, y) === TileType.BreakableWall;
+
+export const isBreakableWall = (world: World, x: number, y: number): boolean =>
+  getTile(world, x, y) === TileType.BreakableWall;
 
 export const isGoal = (world: World, x: number, y: number): boolean =>
   getTile(world, x, y) === TileType.Goal;
@@ -59,3 +72,22 @@ export const isPressurePlate = (world: World, x: number, y: number): boolean =>
 
 export const isDoor = (world: World, x: number, y: number): boolean =>
   getTile(world, x, y) === TileType.Door;
+
+export const isTeleporter = (world: World, x: number, y: number): boolean =>
+  getTile(world, x, y) === TileType.Teleporter;
+
+export const isKey = (world: World, x: number, y: number): boolean =>
+  getTile(world, x, y) === TileType.Key;
+
+export const isLockedDoor = (world: World, x: number, y: number): boolean =>
+  getTile(world, x, y) === TileType.LockedDoor;
+
+const conveyorDirections: Partial<Record<TileType, Direction>> = {
+  [TileType.ConveyorNorth]: 0,
+  [TileType.ConveyorEast]: 1,
+  [TileType.ConveyorSouth]: 2,
+  [TileType.ConveyorWest]: 3,
+};
+
+export const getConveyorDirection = (world: World, x: number, y: number): Direction | null =>
+  conveyorDirections[getTile(world, x, y)] ?? null;
@@ -1,7 +1,13 @@
 import type { RobotAction } from '../engine/robot';
 import type { SimulationState } from '../engine/sim';
-import { isDoorOpen } from '../engine/sim';
-import { isDoor, isPressurePlate, TileType, type World } from '../engine/world';
+import { DEFAULT_CHANNEL, getTileChannel, listOpenDoors } from '../engine/sim';
+import {
+  getConveyorDirection,
+  isDoor,
+  isPressurePlate,
+  TileType,
+  type World,
+} from '../engine/world';
 import type { RenderAssets, RenderContext, Renderer, SpriteFrame } from './Renderer';
 
 const tileMapping: Record<TileType, string> = {
@@ -14,6 +20,14 @@ const tileMapping: Record<TileType, string> = {
   [TileType.Water]: 'floor',
   [TileType.Raft]: 'floor',
   [TileType.Jetty]: 'floor',
+  [TileType.BreakableWall]: 'wall',
+  [TileType.ConveyorNorth]: 'floor',
+  [TileType.ConveyorEast]: 'floor',
+  [TileType.ConveyorSouth]: 'floor',
+  [TileType.ConveyorWest]: 'floor',
+  [TileType.Teleporter]: 'floor',
+  [TileType.Key]: 'floor',
+  [TileType.LockedDoor]: 'floor',
 };
 
 type RobotAnim = 'idle' | 'walk' | 'turn' | 'bump' | 'win' | 'fail';
@@ -30,6 +44,10 @@ const actionIndicatorLabels: Record<RobotAction, string> = {
   TURN_LEFT: 'LEFT',
   TURN_RIGHT: 'RIGHT',
   WAIT: 'WAIT',
+  SIGNAL: 'SIGNAL',
+  BUILD_BRIDGE: 'BUILD',
+  BLOCK: 'BLOCK',
+  DIG: 'DIG',
 };
 
 interface RobotAnimState {
@@ -96,12 +114,19 @@ export class CanvasRenderer implements Renderer {
     }
 
     const pressedPlates = new Set(
-      simulation.robots
-        .filter((robot) => robot.alive && !robot.reachedGoal)
-        .filter((robot) => isPressurePlate(world, robot.x, robot.y))
-        .map((robot) => `${robot.x},${robot.y}`),
+      [
+        ...simulation.robots.filter((robot) => robot.alive && !robot.reachedGoal),
+        ...simulation.crates,
+      ]
+        .filter((entity) => isPressurePlate(world, entity.x, entity.y))
+        .map((entity) => `${entity.x},${entity.y}`),
+    );
+    const openDoors = listOpenDoors(
+      world,
+      simulation.robots,
+      simulation.channels,
+      simulation.openChannels,
     );
-    const doorOpen = isDoorOpen(world, simulation.robots, simulation.doorUnlocked);
     for (let row = 0; row < world.height; row += 1) {
       for (let col = 0; col < world.width; col += 1) {
         if (world.grid[row][col] === TileType.Water) {
@@ -110,14 +135,34 @@ export class CanvasRenderer implements Renderer {
           this.drawRaftTile(col, row);
         } else if (world.grid[row][col] === TileType.Jetty) {
           this.drawJettyTile(col, row);
+        } else if (world.grid[row][col] === TileType.BreakableWall) {
+          this.drawBreakableWall(col, row);
+        } else if (world.grid[row][col] === TileType.Key) {
+          this.drawKey(col, row);
+        } else if (world.grid[row][col] === TileType.LockedDoor) {
+          this.drawLockedDoor(col, row);
+        } else if (world.grid[row][col] === TileType.Teleporter) {
+          this.drawTeleporter(
+            col,
+            row,
+            simulation.teleporters.find((pad) => pad.x === col && pad.y === row)?.id ?? '?',
+          );
+        } else if (getConveyorDirection(world, col, row) !== null) {
+          this.drawConveyor(col, row, getConveyorDirection(world, col, row) ?? 0);
         } else if (isPressurePlate(world, col, row)) {
           this.drawPressurePlate(col, row, pressedPlates.has(`${col},${row}`));
+          this.drawChannelLabel(col, row, getTileChannel(simulation.channels, col, row));
         } else if (isDoor(world, col, row)) {
-          this.drawDoor(col, row, doorOpen);
+          this.drawDoor(col, row, openDoors.has(`${col},${row}`));
+          this.drawChannelLabel(col, row, getTileChannel(simulation.channels, col, row));
         }
       }
     }
 
+    simulation.crates.forEach((crate) => {
+      this.drawCrate(crate.x, crate.y);
+    });
+
     ctx.strokeStyle = '#4b5563';
     ctx.lineWidth = 1;
     for (let row = 0; row < world.height; row += 1) {
@@ -157,6 +202,10 @@ export class CanvasRenderer implements Renderer {
         dt,
       );
 
+      if (robot.isBlocker) {
+        this.drawBlockerMarker(ctx, centerX, centerY);
+      }
+
       const isSelected = robot.id === selectedRobotId || (!selectedRobotId && index === 0);
       const lastAction = context?.lastAction ?? null;
       const showActionIndicator = !!lastAction && context?.robotBubbleId !== robot.id;
@@ -243,6 +292,176 @@ export class CanvasRenderer implements Renderer {
     this.ctx.restore();
   }
 
+  private drawChannelLabel(col: number, row: number, channel: number) {
+    if (!this.ctx || channel === DEFAULT_CHANNEL) {
+      return;
+    }
+    this.ctx.save();
+    this.ctx.font = `${Math.round(this.tileSize * 0.34)}px "Share Tech Mono", ui-monospace, monospace`;
+    this.ctx.textAlign = 'right';
+    this.ctx.textBaseline = 'bottom';
+    this.ctx.fillStyle = '#f8fafc';
+    this.ctx.strokeStyle = '#0f172a';
+    this.ctx.lineWidth = 2;
+    const label = String(channel);
+    const x = (col + 1) * this.tileSize - 2;
+    const y = (row + 1) * this.tileSize - 1;
+    this.ctx.strokeText(label, x, y);
+    this.ctx.fillText(label, x, y);
+    this.ctx.restore();
+  }
+
+  private drawBreakableWall(col: number, row: number) {
+    if (!this.ctx) {
+      return;
+    }
+    const x = col * this.tileSize;
+    const y = row * this.tileSize;
+    this.ctx.save();
+    this.ctx.strokeStyle = '#fcd34d';
+    this.ctx.lineWidth = Math.max(1, this.tileSize * 0.06);
+    this.ctx.beginPath();
+    this.ctx.moveTo(x + this.tileSize * 0.3, y + this.tileSize * 0.15);
+    this.ctx.lineTo(x + this.tileSize * 0.45, y + this.tileSize * 0.45);
+    this.ctx.lineTo(x + this.tileSize * 0.3, y + this.tileSize * 0.6);
+    this.ctx.lineTo(x + this.tileSize * 0.5, y + this.tileSize * 0.85);
+    this.ctx.moveTo(x + this.tileSize * 0.45, y + this.tileSize * 0.45);
+    this.ctx.lineTo(x + this.tileSize * 0.75, y + this.tileSize * 0.35);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  private drawCrate(col: number, row: number) {
+    if (!this.ctx) {
+      return;
+    }
+    const padding = this.tileSize * 0.1;
+    const x = col * this.tileSize + padding;
+    const y = row * this.tileSize + padding;
+    const size = this.tileSize - padding * 2;
+    this.ctx.save();
+    this.ctx.fillStyle = '#a16207';
+    this.ctx.strokeStyle = '#713f12';
+    this.ctx.lineWidth = Math.max(1, this.tileSize * 0.07);
+    this.ctx.fillRect(x, y, size, size);
+    this.ctx.strokeRect(x, y, size, size);
+    this.ctx.beginPath();
+    this.ctx.moveTo(x, y);
+    this.ctx.lineTo(x + size, y + size);
+    this.ctx.moveTo(x + size, y);
+    this.ctx.lineTo(x, y + size);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  private drawKey(col: number, row: number) {
+    if (!this.ctx) {
+      return;
+    }
+    const x = col * this.tileSize;
+    const y = row * this.tileSize;
+    this.ctx.save();
+    this.ctx.strokeStyle = '#facc15';
+    this.ctx.lineWidth = Math.max(1, this.tileSize * 0.09);
+    this.ctx.beginPath();
+    this.ctx.arc(x + this.tileSize * 0.32, y + this.tileSize * 0.5, this.tileSize * 0.13, 0, Math.PI * 2);
+    this.ctx.moveTo(x + this.tileSize * 0.45, y + this.tileSize * 0.5);
+    this.ctx.lineTo(x + this.tileSize * 0.8, y + this.tileSize * 0.5);
+    this.ctx.moveTo(x + this.tileSize * 0.7, y + this.tileSize * 0.5);
+    this.ctx.lineTo(x + this.tileSize * 0.7, y + this.tileSize * 0.64);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  private drawLockedDoor(col: number, row: number) {
+    if (!this.ctx) {
+      return;
+    }
+    const padding = this.tileSize * 0.12;
+    const centerX = (col + 0.5) * this.tileSize;
+    const centerY = (row + 0.5) * this.tileSize;
+    this.ctx.save();
+    this.ctx.fillStyle = '#3f2a14';
+    this.ctx.strokeStyle = '#facc15';
+    this.ctx.lineWidth = Math.max(1, this.tileSize * 0.06);
+    this.ctx.fillRect(
+      col * this.tileSize + padding,
+      row * this.tileSize + padding,
+      this.tileSize - padding * 2,
+      this.tileSize - padding * 2,
+    );
+    this.ctx.strokeRect(
+      col * this.tileSize + padding,
+      row * this.tileSize + padding,
+      this.tileSize - padding * 2,
+      this.tileSize - padding * 2,
+    );
+    this.ctx.fillStyle = '#facc15';
+    this.ctx.beginPath();
+    this.ctx.arc(centerX, centerY - this.tileSize * 0.06, this.tileSize * 0.08, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.fillRect(
+      centerX - this.tileSize * 0.03,
+      centerY - this.tileSize * 0.04,
+      this.tileSize * 0.06,
+      this.tileSize * 0.16,
+    );
+    this.ctx.restore();
+  }
+
+  private drawTeleporter(col: number, row: number, id: string) {
+    if (!this.ctx) {
+      return;
+    }
+    const centerX = (col + 0.5) * this.tileSize;
+    const centerY = (row + 0.5) * this.tileSize;
+    this.ctx.save();
+    this.ctx.fillStyle = 'rgba(168, 85, 247, 0.35)';
+    this.ctx.strokeStyle = '#c084fc';
+    this.ctx.lineWidth = Math.max(1, this.tileSize * 0.08);
+    this.ctx.beginPath();
+    this.ctx.arc(centerX, centerY, this.tileSize * 0.36, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+    this.ctx.font = `${Math.round(this.tileSize * 0.36)}px "Share Tech Mono", ui-monospace, monospace`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillStyle = '#f5f3ff';
+    this.ctx.fillText(id, centerX, centerY);
+    this.ctx.restore();
+  }
+
+  private drawConveyor(col: number, row: number, direction: number) {
+    if (!this.ctx) {
+      return;
+    }
+    const padding = this.tileSize * 0.08;
+    const centerX = (col + 0.5) * this.tileSize;
+    const centerY = (row + 0.5) * this.tileSize;
+    const arrow = this.tileSize * 0.22;
+    this.ctx.save();
+    this.ctx.fillStyle = '#334155';
+    this.ctx.strokeStyle = '#94a3b8';
+    this.ctx.lineWidth = Math.max(1, this.tileSize * 0.06);
+    this.ctx.fillRect(
+      col * this.tileSize + padding,
+      row * this.tileSize + padding,
+      this.tileSize - padding * 2,
+      this.tileSize - padding * 2,
+    );
+    this.ctx.translate(centerX, centerY);
+    this.ctx.rotate((Math.PI / 2) * direction);
+    this.ctx.beginPath();
+    this.ctx.moveTo(-arrow, arrow * 0.2);
+    this.ctx.lineTo(0, -arrow * 0.8);
+    this.ctx.lineTo(arrow, arrow * 0.2);
+    this.ctx.moveTo(-arrow, arrow);
+    this.ctx.lineTo(0, 0);
+    this.ctx.lineTo(arrow, arrow);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
   private drawJettyTile(col: number, row: number) {
     if (!this.ctx) {
       return;
@@ -452,6 +671,16 @@ export class CanvasRenderer implements Renderer {
     ctx.restore();
   }
 
+  private drawBlockerMarker(ctx: CanvasRenderingContext2D, centerX: number, centerY: number) {
+    const half = this.tileSize * 0.42;
+    ctx.save();
+    ctx.strokeStyle = 'rgba(249, 115, 22, 0.9)';
+    ctx.lineWidth = Math.max(2, this.tileSize * 0.08);
+    ctx.setLineDash([4, 3]);
+    ctx.strokeRect(centerX - half, centerY - half, half * 2, half * 2);
+    ctx.restore();
+  }
+
   private drawRobotIndicator(
     ctx: CanvasRenderingContext2D,
     centerX: number,
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { createWorld, TileType } from '../../engine/world';
+import { buildDistanceField, getPathDistance } from '../distance';
+
+const { Empty: E, Wall: W, Goal: G, Door: D, Water: R, Raft: F, Jetty: J, Teleporter: T } =
+  TileType;
+
+describe('buildDistanceField()', () => {
+  it('measures walking distance around walls and through doors', () => {
+    const world = createWorld([
+      [W, W, W, W, W],
+      [W, E, W, G, W],
+      [W, E, W, E, W],
+      [W, E, D, E, W],
+      [W, W, W, W, W],
+    ]);
+
+    const field = buildDistanceField(world, [{ x: 3, y: 1 }]);
+
+    expect(getPathDistance(field, 1, 1)).toBe(6);
+    expect(getPathDistance(field, 2, 3)).toBe(3);
+    expect(getPathDistance(field, 2, 1)).toBe(Infinity);
+    expect(getPathDistance(field, -1, 0)).toBe(Infinity);
+  });
+
+  it('follows raft routes and teleporter pairs across water', () => {
+    const world = createWorld([
+      [W, W, W, W, W, W, W],
+      [W, E, F, R, J, G, W],
+      [W, W, W, W, W, E, W],
+      [W, T, W, W, W, T, W],
+      [W, W, W, W, W, W, W],
+    ]);
+
+    const field = buildDistanceField(
+      world,
+      [{ x: 5, y: 1 }],
+      [
+        { x: 1, y: 3, id: 'A' },
+        { x: 5, y: 3, id: 'A' },
+      ],
+    );
+
+    expect(getPathDistance(field, 1, 1)).toBe(3);
+    expect(getPathDistance(field, 3, 1)).toBe(Infinity);
+    expect(getPathDistance(field, 1, 3)).toBe(2);
+    expect(getPathDistance(field, 5, 3)).toBe(2);
+  });
+});
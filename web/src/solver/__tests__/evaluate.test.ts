@@ -1,7 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import { TileType } from '../../engine/world';
 import type { SolverLevelDefinition, SolverProgram } from '../types';
-import { evaluate } from '../evaluate';
+import { evaluate, evaluateIncremental, type EvalSnapshot } from '../evaluate';
+import { SCORING_PRESETS } from '../scoring';
 
 const makeBorderedGrid = (
   width: number,
@@ -73,4 +74,152 @@ describe('evaluate()', () => {
     expect(result.events.doorOpened).toBe(true);
     expect(result.events.waterTouched).toBe(false);
   });
+
+  it('stops early when the robots repeat the same state', () => {
+    const grid = makeBorderedGrid(5, 3, (x, y) =>
+      x === 3 && y === 1 ? TileType.Goal : TileType.Empty,
+    );
+    const level: SolverLevelDefinition = {
+      grid,
+      spawner: baseSpawner,
+      exits: [{ x: 3, y: 1 }],
+      requiredSaved: 1,
+      maxTicks: 100,
+    };
+    const spinProgram = makeProgram([
+      {
+        type: 'repeat_until',
+        condition: { kind: 'primitive', condition: 'ON_GOAL' },
+        body: makeProgram([{ type: 'action', action: 'TURN_LEFT' }]),
+      },
+    ]);
+
+    const result = evaluate(spinProgram, level, { sampleEvery: 1 });
+    const unchecked = evaluate(spinProgram, level, { sampleEvery: 1, detectLoops: false });
+
+    expect(result.solved).toBe(false);
+    expect(result.stuck).toBe(true);
+    expect(result.ticks).toBeLessThan(10);
+    expect(unchecked.stuck).toBe(false);
+    expect(unchecked.ticks).toBe(100);
+  });
+
+  it('resumes straight-line programs from the parent snapshot', () => {
+    const grid = makeBorderedGrid(7, 4, (x, y) => {
+      if (x === 5 && y === 1) {
+        return TileType.Goal;
+      }
+      if (x === 3 && y === 2) {
+        return TileType.Hazard;
+      }
+      return TileType.Empty;
+    });
+    const level: SolverLevelDefinition = {
+      grid,
+      spawner: { ...baseSpawner, count: 3, intervalTicks: 2 },
+      exits: [{ x: 5, y: 1 }],
+      requiredSaved: 2,
+      maxTicks: 30,
+    };
+    const actions = [
+      'MOVE_FORWARD',
+      'TURN_RIGHT',
+      'TURN_LEFT',
+      'MOVE_FORWARD',
+      'WAIT',
+      'MOVE_FORWARD',
+      'MOVE_FORWARD',
+      'MOVE_FORWARD',
+    ] as const;
+
+    let snapshot: EvalSnapshot | undefined;
+    for (let length = 0; length <= actions.length; length += 1) {
+      const program = makeProgram(
+        actions.slice(0, length).map((action) => ({ type: 'action' as const, action })),
+      );
+      const incremental = evaluateIncremental(program, level, { sampleEvery: 1 }, snapshot);
+      expect(incremental.result).toEqual(evaluate(program, level, { sampleEvery: 1 }));
+      snapshot = incremental.snapshot;
+    }
+  });
+
+  it('ignores parent snapshots from programs that are not a prefix', () => {
+    const grid = makeBorderedGrid(5, 4, (x, y) =>
+      x === 3 && y === 1 ? TileType.Goal : TileType.Empty,
+    );
+    const level: SolverLevelDefinition = {
+      grid,
+      spawner: baseSpawner,
+      exits: [{ x: 3, y: 1 }],
+      requiredSaved: 1,
+      maxTicks: 10,
+    };
+    const turning = makeProgram([{ type: 'action', action: 'TURN_RIGHT' }]);
+    const { snapshot } = evaluateIncremental(turning, level, { sampleEvery: 1 });
+
+    const unrelated = evaluateIncremental(moveForwardProgram, level, { sampleEvery: 1 }, snapshot);
+
+    expect(unrelated.result).toEqual(evaluate(moveForwardProgram, level, { sampleEvery: 1 }));
+    expect(unrelated.result.solved).toBe(true);
+  });
+
+  it('scores runs with custom weights, milestones and presets', () => {
+    const grid = makeBorderedGrid(5, 3, (x, y) =>
+      x === 3 && y === 1 ? TileType.Goal : TileType.Empty,
+    );
+    const level: SolverLevelDefinition = {
+      grid,
+      spawner: baseSpawner,
+      exits: [{ x: 3, y: 1 }],
+      requiredSaved: 1,
+    };
+    const waitingProgram = makeProgram([
+      { type: 'action', action: 'WAIT' },
+      ...moveForwardProgram.steps,
+    ]);
+
+    const base = evaluate(moveForwardProgram, level, { sampleEvery: 1 });
+    const reweighted = evaluate(moveForwardProgram, level, {
+      sampleEvery: 1,
+      scoring: {
+        weights: { won: 100 },
+        milestones: [
+          { type: 'visit', x: 2, y: 1, weight: 500 },
+          { type: 'event', event: 'door_opened', weight: 1000 },
+        ],
+      },
+    });
+
+    expect(reweighted.score).toBe(base.score - 6000 + 100 + 500);
+    const fewestTicks = { scoring: SCORING_PRESETS.fewest_ticks };
+    expect(evaluate(waitingProgram, level, fewestTicks).score).toBeLessThan(
+      evaluate(moveForwardProgram, level, fewestTicks).score,
+    );
+  });
+
+  it('keeps outcome penalties when the best tick came before them', () => {
+    const grid = makeBorderedGrid(6, 3, (x, y) =>
+      x === 3 && y === 1 ? TileType.Hazard : TileType.Empty,
+    );
+    const level: SolverLevelDefinition = {
+      grid,
+      spawner: baseSpawner,
+      exits: [{ x: 4, y: 1 }],
+      requiredSaved: 1,
+      maxTicks: 4,
+    };
+    const safest = { sampleEvery: 1, scoring: SCORING_PRESETS.safest };
+    const reckless = evaluate(moveForwardProgram, level, safest);
+    const careful = evaluate(
+      makeProgram([
+        { type: 'action', action: 'MOVE_FORWARD' },
+        { type: 'action', action: 'WAIT' },
+      ]),
+      level,
+      safest,
+    );
+
+    expect(reckless.finalRobots[0].alive).toBe(false);
+    expect(reckless.score).toBeLessThan(careful.score);
+  });
 });
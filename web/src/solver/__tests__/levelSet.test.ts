@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { TileType } from '../../engine/world';
+import { evaluateLevelSet } from '../levelSet';
+import type { SolverLevelDefinition, SolverProgram } from '../types';
+
+const corridor = (length: number, maxTicks: number): SolverLevelDefinition => ({
+  id: `corridor-${length}`,
+  grid: [
+    Array.from({ length: length + 3 }, () => TileType.Wall),
+    [
+      TileType.Wall,
+      ...Array.from({ length }, () => TileType.Empty),
+      TileType.Goal,
+      TileType.Wall,
+    ],
+    Array.from({ length: length + 3 }, () => TileType.Wall),
+  ],
+  spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+  exits: [{ x: length + 1, y: 1 }],
+  requiredSaved: 1,
+  maxTicks,
+});
+
+const walk = (steps: number): SolverProgram => ({
+  type: 'sequence',
+  steps: Array.from({ length: steps }, () => ({ type: 'action', action: 'MOVE_FORWARD' })),
+});
+
+describe('evaluateLevelSet()', () => {
+  it('runs each extra level with its own tick and VM step limits', () => {
+    const { result, outcomes } = evaluateLevelSet(walk(6), corridor(1, 3), [corridor(6, 10)], {
+      maxTicks: 3,
+      maxVmSteps: 3,
+    });
+
+    expect(outcomes.map((outcome) => outcome.solved)).toEqual([true, true]);
+    expect(result.solved).toBe(true);
+  });
+});
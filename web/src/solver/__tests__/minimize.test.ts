@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { TileType } from '../../engine/world';
+import { createProgramMinimizer, minimizeProgram } from '../minimize';
+import type { SolverAstNode, SolverLevelDefinition, SolverProgram } from '../types';
+
+const corridor: SolverLevelDefinition = {
+  grid: [
+    [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    [TileType.Wall, TileType.Empty, TileType.Empty, TileType.Empty, TileType.Goal, TileType.Wall],
+    [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+  ],
+  spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+  exits: [{ x: 4, y: 1 }],
+  requiredSaved: 1,
+  maxTicks: 20,
+};
+
+const flat = (...steps: SolverAstNode[]): SolverProgram => ({
+  type: 'sequence',
+  steps,
+});
+
+describe('minimizeProgram()', () => {
+  it('drops no-op turns and trailing steps, then folds runs into a repeat', () => {
+    const program = flat(
+      { type: 'action', action: 'TURN_LEFT' },
+      { type: 'action', action: 'TURN_RIGHT' },
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'TURN_RIGHT' },
+      { type: 'action', action: 'TURN_RIGHT' },
+      { type: 'action', action: 'TURN_RIGHT' },
+      { type: 'action', action: 'TURN_RIGHT' },
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'WAIT' },
+      { type: 'action', action: 'TURN_LEFT' },
+    );
+
+    const result = minimizeProgram(program, corridor);
+
+    expect(result.evaluation.solved).toBe(true);
+    expect(result.program).toEqual(
+      flat({
+        type: 'repeat',
+        count: 3,
+        body: flat({ type: 'action', action: 'MOVE_FORWARD' }),
+      }),
+    );
+  });
+
+  it('leaves programs that do not solve the level untouched', () => {
+    const program = flat(
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'TURN_LEFT' },
+      { type: 'action', action: 'TURN_RIGHT' },
+    );
+
+    const result = minimizeProgram(program, corridor);
+
+    expect(result.evaluation.solved).toBe(false);
+    expect(result.program).toBe(program);
+  });
+
+  it('steps through at most one rewrite attempt at a time', () => {
+    const program = flat(
+      { type: 'action', action: 'TURN_LEFT' },
+      { type: 'action', action: 'TURN_RIGHT' },
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'MOVE_FORWARD' },
+      { type: 'action', action: 'WAIT' },
+    );
+    const minimizer = createProgramMinimizer(program, corridor);
+    const attemptsPerStep: number[] = [];
+    let done = false;
+    while (!done) {
+      const before = minimizer.getResult().attempts;
+      done = minimizer.step();
+      attemptsPerStep.push(minimizer.getResult().attempts - before);
+    }
+
+    expect(attemptsPerStep.length).toBeGreaterThan(1);
+    expect(Math.max(...attemptsPerStep)).toBe(1);
+    expect(minimizer.getResult().program).toEqual(minimizeProgram(program, corridor).program);
+  });
+});
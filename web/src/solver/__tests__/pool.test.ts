@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSolverPool, getSolverPoolSize, type SolverPoolWorker } from '../pool';
+import type {
+  SolverWorkerMessage,
+  SolverWorkerResponse,
+  SolverWorkerStartPayload,
+} from '../types';
+
+interface FakeWorker extends SolverPoolWorker {
+  messages: SolverWorkerMessage[];
+  respond: (response: SolverWorkerResponse) => void;
+}
+
+const createFakeWorker = (): FakeWorker => {
+  const listeners: Array<(event: MessageEvent<SolverWorkerResponse>) => void> = [];
+  const worker: FakeWorker = {
+    messages: [],
+    postMessage: (message) => {
+      worker.messages.push(message);
+    },
+    addEventListener: (_, listener) => {
+      listeners.push(listener);
+    },
+    terminate: () => undefined,
+    respond: (response) => {
+      listeners.forEach((listener) =>
+        listener({ data: response } as MessageEvent<SolverWorkerResponse>),
+      );
+    },
+  };
+  return worker;
+};
+
+const startPayload: SolverWorkerStartPayload = {
+  level: { grid: [[1]] },
+  search: { actions: ['MOVE_FORWARD'], maxAttempts: 100 },
+};
+
+describe('createSolverPool()', () => {
+  it('sizes the pool from the available cores', () => {
+    expect(getSolverPoolSize(undefined)).toBe(1);
+    expect(getSolverPoolSize(2)).toBe(1);
+    expect(getSolverPoolSize(4)).toBe(3);
+    expect(getSolverPoolSize(32)).toBe(4);
+  });
+
+  it('splits the search and merges progress and results', () => {
+    const workers: FakeWorker[] = [];
+    const responses: SolverWorkerResponse[] = [];
+    const pool = createSolverPool(
+      3,
+      () => {
+        const worker = createFakeWorker();
+        workers.push(worker);
+        return worker;
+      },
+      (response) => responses.push(response),
+    );
+
+    pool.postMessage({ type: 'start', payload: startPayload });
+
+    expect(
+      workers.map((worker) => {
+        const message = worker.messages[0];
+        return message.type === 'start' ? message.payload.search : undefined;
+      }),
+    ).toEqual([
+      { ...startPayload.search, maxAttempts: 34, partition: { index: 0, count: 3 } },
+      { ...startPayload.search, maxAttempts: 34, partition: { index: 1, count: 3 } },
+      { ...startPayload.search, maxAttempts: 34, partition: { index: 2, count: 3 } },
+    ]);
+
+    workers[0].respond({
+      type: 'progress',
+      generation: 1,
+      payload: { attemptCount: 10, bestScore: 50, elapsedMs: 20 },
+    });
+    workers[1].respond({
+      type: 'progress',
+      generation: 1,
+      payload: { attemptCount: 12, bestScore: 80, elapsedMs: 30 },
+    });
+    expect(responses[1]).toEqual({
+      type: 'progress',
+      payload: {
+        attemptCount: 22,
+        bestScore: 80,
+        elapsedMs: 30,
+        bestProgram: undefined,
+        bestTrace: undefined,
+      },
+    });
+
+    const solution = { type: 'sequence' as const, steps: [] };
+    workers[2].respond({
+      type: 'result',
+      generation: 1,
+      payload: {
+        attemptCount: 5,
+        bestScore: 70,
+        elapsedMs: 25,
+        bestProgram: solution,
+        solved: true,
+      },
+    });
+
+    expect(workers[0].messages[1]).toEqual({ type: 'cancel' });
+    expect(workers[1].messages[1]).toEqual({ type: 'cancel' });
+    expect(responses[2]).toEqual({
+      type: 'result',
+      payload: {
+        attemptCount: 27,
+        bestScore: 70,
+        elapsedMs: 30,
+        bestProgram: solution,
+        bestTrace: undefined,
+        solved: true,
+      },
+    });
+
+    workers[0].respond({
+      type: 'progress',
+      generation: 1,
+      payload: { attemptCount: 11, bestScore: 90, elapsedMs: 35 },
+    });
+    expect(responses).toHaveLength(3);
+  });
+
+  it('drops responses left over from an earlier run', () => {
+    const workers: FakeWorker[] = [];
+    const responses: SolverWorkerResponse[] = [];
+    const pool = createSolverPool(
+      2,
+      () => {
+        const worker = createFakeWorker();
+        workers.push(worker);
+        return worker;
+      },
+      (response) => responses.push(response),
+    );
+
+    pool.postMessage({ type: 'start', payload: startPayload });
+    pool.postMessage({ type: 'cancel' });
+    pool.postMessage({ type: 'start', payload: startPayload });
+
+    expect(workers[0].messages[2]).toMatchObject({ type: 'start', payload: { generation: 2 } });
+
+    workers[0].respond({
+      type: 'result',
+      generation: 1,
+      payload: { attemptCount: 5, bestScore: 70, elapsedMs: 25, solved: true },
+    });
+
+    expect(responses).toEqual([]);
+    expect(workers[1].messages.map((message) => message.type)).toEqual([
+      'start',
+      'cancel',
+      'start',
+    ]);
+
+    workers[1].respond({
+      type: 'progress',
+      generation: 2,
+      payload: { attemptCount: 3, bestScore: 10, elapsedMs: 5 },
+    });
+
+    expect(responses).toHaveLength(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ProgramNode } from '../../blocks/types';
+import { TileType } from '../../engine/world';
+import { findRepair } from '../repair';
+import { fromProgramNode, toStepKey } from '../translate';
+import type { SolverLevelDefinition } from '../types';
+
+const corridor: SolverLevelDefinition = {
+  grid: [
+    [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+    [TileType.Wall, TileType.Empty, TileType.Empty, TileType.Empty, TileType.Goal, TileType.Wall],
+    [TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall, TileType.Wall],
+  ],
+  spawner: { x: 1, y: 1, dir: 1, count: 1, intervalTicks: 0 },
+  exits: [{ x: 4, y: 1 }],
+  requiredSaved: 1,
+  maxTicks: 20,
+};
+
+const actions = ['MOVE_FORWARD', 'TURN_LEFT', 'TURN_RIGHT', 'WAIT'] as const;
+
+describe('findRepair()', () => {
+  it('finds the one block change that solves the level', () => {
+    const workspaceProgram: ProgramNode = {
+      type: 'sequence',
+      steps: [
+        {
+          type: 'repeat',
+          count: 2,
+          body: {
+            type: 'sequence',
+            steps: [{ type: 'action', action: 'MOVE_FORWARD', blockId: 'move-1' }],
+          },
+          blockId: 'repeat-1',
+        },
+        { type: 'action', action: 'TURN_LEFT', blockId: 'left-1' },
+      ],
+    };
+    const translated = fromProgramNode(workspaceProgram);
+    if (!translated) {
+      throw new Error('Expected the program to translate.');
+    }
+
+    expect(translated.blockIds.get(toStepKey([0, 'body'], 0))).toBe('move-1');
+
+    const result = findRepair(translated.program, corridor, { actions: [...actions] });
+
+    expect(result.solved).toBe(true);
+    expect(result.edit).toEqual({ type: 'set_count', path: [], index: 0, count: 3 });
+    expect(translated.blockIds.get(toStepKey([], 0))).toBe('repeat-1');
+  });
+
+  it('skips programs that use procedures or counters', () => {
+    expect(
+      fromProgramNode({
+        type: 'sequence',
+        steps: [{ type: 'set_variable', variable: 'steps', value: 1, blockId: 'set-1' }],
+      }),
+    ).toBeNull();
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { TileType } from '../../engine/world';
 import type { SolverLevelDefinition } from '../types';
-import { runSolverSearch } from '../search';
+import { createSolverSearch, runSolverSearch } from '../search';
 
 const makeBorderedGrid = (
   width: number,
@@ -51,6 +51,37 @@ describe('runSolverSearch()', () => {
     });
   });
 
+  it('finds one program that solves every level in the set', () => {
+    const corridor = (length: number): SolverLevelDefinition => ({
+      id: `corridor-${length}`,
+      grid: makeBorderedGrid(length + 3, 3, (x) =>
+        x === length + 1 ? TileType.Goal : TileType.Empty,
+      ),
+      spawner: baseSpawner,
+      exits: [{ x: length + 1, y: 1 }],
+      requiredSaved: 1,
+    });
+
+    const result = runSolverSearch(
+      corridor(1),
+      {
+        actions: ['MOVE_FORWARD', 'TURN_LEFT'],
+        maxDepth: 4,
+        maxAttempts: 200,
+        maxTimeMs: 2000,
+        beamWidth: 5,
+        extraLevels: [corridor(4)],
+      },
+      { maxTicks: 10, sampleEvery: 1 },
+    );
+
+    expect(result.solved).toBe(true);
+    expect(result.state.bestLevels).toEqual([
+      expect.objectContaining({ id: 'corridor-1', solved: true }),
+      expect.objectContaining({ id: 'corridor-4', solved: true }),
+    ]);
+  });
+
   it('respects the attempt budget when searching', () => {
     const grid = makeBorderedGrid(4, 3, () => TileType.Empty);
     const level: SolverLevelDefinition = {
@@ -75,4 +106,68 @@ describe('runSolverSearch()', () => {
     expect(result.solved).toBe(false);
     expect(result.state.attempts).toBe(1);
   });
+
+  it('builds loops when a flat program would be too long', () => {
+    const grid = makeBorderedGrid(10, 3, (x, y) =>
+      x === 8 && y === 1 ? TileType.Goal : TileType.Empty,
+    );
+    const level: SolverLevelDefinition = {
+      grid,
+      spawner: baseSpawner,
+      exits: [{ x: 8, y: 1 }],
+      requiredSaved: 1,
+    };
+
+    const result = runSolverSearch(
+      level,
+      {
+        actions: ['MOVE_FORWARD', 'TURN_LEFT'],
+        conditions: ['WALL_AHEAD'],
+        maxDepth: 4,
+        maxAttempts: 200,
+        maxTimeMs: 2000,
+        beamWidth: 5,
+      },
+      { maxTicks: 20, sampleEvery: 1 },
+    );
+
+    expect(result.solved).toBe(true);
+    expect(
+      result.state.bestProgram?.steps.some(
+        (step) => step.type === 'repeat' || step.type === 'repeat_until',
+      ),
+    ).toBe(true);
+  });
+
+  it('runs in resumable slices and picks up budget changes', () => {
+    const grid = makeBorderedGrid(8, 5, () => TileType.Empty);
+    const level: SolverLevelDefinition = {
+      grid,
+      spawner: baseSpawner,
+      exits: [{ x: 6, y: 3 }],
+      requiredSaved: 1,
+    };
+    const search = createSolverSearch(
+      level,
+      {
+        actions: ['MOVE_FORWARD', 'TURN_RIGHT'],
+        maxDepth: 10,
+        maxAttempts: 500,
+        maxTimeMs: 5000,
+        beamWidth: 4,
+      },
+      { maxTicks: 12, sampleEvery: 1 },
+    );
+
+    expect(search.runSlice(0)).toBe(false);
+    expect(search.getResult().state.attempts).toBe(0);
+
+    search.updateBudget({ maxAttempts: 3 });
+    let slices = 0;
+    while (!search.runSlice(1) && slices < 100) {
+      slices += 1;
+    }
+
+    expect(search.getResult().state.attempts).toBe(3);
+  });
 });
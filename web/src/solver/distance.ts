@@ -0,0 +1,114 @@
+import { getTeleporterPartner, type TeleporterPad } from '../engine/sim';
+import {
+  getTile,
+  isHazard,
+  isInsideWorld,
+  isWall,
+  TileType,
+  type World,
+} from '../engine/world';
+
+export interface DistanceField {
+  width: number;
+  height: number;
+  distances: number[];
+}
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+const neighborOffsets: Position[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+const isWalkable = (world: World, x: number, y: number): boolean =>
+  isInsideWorld(world, x, y) && !isWall(world, x, y) && !isHazard(world, x, y);
+
+const listTiles = (world: World, tile: TileType): Position[] => {
+  const positions: Position[] = [];
+  for (let y = 0; y < world.height; y += 1) {
+    for (let x = 0; x < world.width; x += 1) {
+      if (getTile(world, x, y) === tile) {
+        positions.push({ x, y });
+      }
+    }
+  }
+  return positions;
+};
+
+const buildRaftLinks = (world: World): Map<number, Position[]> => {
+  const links = new Map<number, Position[]>();
+  const jetties = listTiles(world, TileType.Jetty);
+  const link = (from: Position, to: Position) => {
+    const key = from.y * world.width + from.x;
+    links.set(key, [...(links.get(key) ?? []), to]);
+  };
+  if (jetties.length === 0) {
+    return links;
+  }
+  listTiles(world, TileType.Raft).forEach((raft) => {
+    const route = [raft, ...jetties];
+    route.forEach((stop, index) => {
+      const next = route[(index + 1) % route.length];
+      link(stop, next);
+      link(next, stop);
+    });
+  });
+  return links;
+};
+
+// Teleporter pads share their partner's distance because the hop happens in the same step.
+// Conveyors count as plain floor, so distances on belts are only an approximation.
+export const buildDistanceField = (
+  world: World,
+  exits: Position[],
+  teleporters: TeleporterPad[] = [],
+): DistanceField => {
+  const distances = new Array<number>(world.width * world.height).fill(Infinity);
+  const raftLinks = buildRaftLinks(world);
+  const queue: Position[] = [];
+
+  exits.forEach((exit) => {
+    if (isInsideWorld(world, exit.x, exit.y)) {
+      distances[exit.y * world.width + exit.x] = 0;
+      queue.push(exit);
+    }
+  });
+
+  const visit = (neighbor: Position, distance: number, cost: number) => {
+    const index = neighbor.y * world.width + neighbor.x;
+    if (!isWalkable(world, neighbor.x, neighbor.y) || distances[index] <= distance + cost) {
+      return;
+    }
+    distances[index] = distance + cost;
+    if (cost === 0) {
+      queue.unshift(neighbor);
+    } else {
+      queue.push(neighbor);
+    }
+  };
+
+  for (let current = queue.shift(); current; current = queue.shift()) {
+    const distance = distances[current.y * world.width + current.x];
+    const partner = getTeleporterPartner(world, teleporters, current.x, current.y);
+    if (partner) {
+      visit(partner, distance, 0);
+    }
+    [
+      ...neighborOffsets.map((offset) => ({ x: current.x + offset.x, y: current.y + offset.y })),
+      ...(raftLinks.get(current.y * world.width + current.x) ?? []),
+    ].forEach((neighbor) => visit(neighbor, distance, 1));
+  }
+
+  return { width: world.width, height: world.height, distances };
+};
+
+export const getPathDistance = (field: DistanceField, x: number, y: number): number =>
+  x >= 0 && y >= 0 && x < field.width && y < field.height
+    ? field.distances[y * field.width + x]
+    : Infinity;
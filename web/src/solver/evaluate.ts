@@ -1,12 +1,31 @@
-import { createVm, stepVm } from '../blocks/vm';
-import { isDoorOpen, stepSimulation, createSimulation } from '../engine/sim';
+import {
+  compileBytecode,
+  createBytecodeVm,
+  fingerprintBytecodeVm,
+  stepBytecodeVm,
+  type BytecodeProgram,
+  type BytecodeVmState,
+} from '../blocks/bytecode';
+import {
+  listOpenDoors,
+  listUnlockedDoors,
+  stepSimulation,
+  createSimulation,
+  fingerprintSimulation,
+  type SimulationEvent,
+  type SimulationState,
+} from '../engine/sim';
 import type { RobotAction, RobotState, Direction } from '../engine/robot';
-import { createWorld, isPressurePlate, isRaft, isWater } from '../engine/world';
+import { createWorld, isPressurePlate, isWater } from '../engine/world';
+import { buildDistanceField, getPathDistance, type DistanceField } from './distance';
+import { resolveScoringWeights } from './scoring';
 import { toProgramNode } from './translate';
 import type {
   EvalOptions,
   EvalResult,
   EventSummary,
+  ScoringMilestone,
+  ScoringWeights,
   SolverLevelDefinition,
   SolverProgram,
   TraceLite,
@@ -15,6 +34,17 @@ import type {
 
 const DEFAULT_SAMPLE_EVERY = 5;
 
+const bytecodeCache = new WeakMap<SolverProgram, BytecodeProgram>();
+
+const compileSolverProgram = (program: SolverProgram): BytecodeProgram => {
+  let compiled = bytecodeCache.get(program);
+  if (!compiled) {
+    compiled = compileBytecode(toProgramNode(program));
+    bytecodeCache.set(program, compiled);
+  }
+  return compiled;
+};
+
 const normalizeSampleEvery = (sampleEvery: number): number =>
   Number.isFinite(sampleEvery) && sampleEvery > 0 ? Math.floor(sampleEvery) : 1;
 
@@ -64,6 +94,11 @@ const createSimulationForLevel = (
     world,
     spawner,
     exits,
+    channels: level.channels,
+    teleporters: level.teleporters,
+    items: level.items,
+    crates: level.crates,
+    skills: level.skills,
     maxSteps: level.maxTicks ?? options.maxTicks ?? 200,
     requiredSaved: level.requiredSaved ?? 1,
   });
@@ -95,24 +130,22 @@ const updateEvents = (
   events: EventSummary,
   robots: RobotState[],
   levelWorld: ReturnType<typeof createWorld>,
-  doorOpen: boolean,
-  savedCount: number,
+  tickEvents: SimulationEvent[],
 ): EventSummary => {
   const pressurePlatePressed = robots.some(
     (robot) => robot.alive && isPressurePlate(levelWorld, robot.x, robot.y),
   );
-  const raftUsed = robots.some(
-    (robot) => robot.alive && isRaft(levelWorld, robot.x, robot.y),
-  );
   const waterTouched = robots.some(
     (robot) => robot.alive && isWater(levelWorld, robot.x, robot.y),
   );
   return {
-    doorOpened: events.doorOpened || doorOpen,
+    doorOpened: events.doorOpened || tickEvents.some((event) => event.type === 'door_opened'),
     pressurePlatePressed: events.pressurePlatePressed || pressurePlatePressed,
-    raftUsed: events.raftUsed || raftUsed,
+    raftUsed: events.raftUsed || tickEvents.some((event) => event.type === 'raft_departed'),
     waterTouched: events.waterTouched || waterTouched,
-    anySaved: events.anySaved || savedCount > 0,
+    anySaved: events.anySaved || tickEvents.some((event) => event.type === 'saved'),
+    itemsPickedUp:
+      events.itemsPickedUp + tickEvents.filter((event) => event.type === 'picked_up').length,
   };
 };
 
@@ -123,236 +156,395 @@ interface ActionStats {
   waitCount: number;
 }
 
-const updateActionStats = (
-  stats: ActionStats,
-  beforeRobots: RobotState[],
-  afterRobots: RobotState[],
-  actions: Array<RobotAction | undefined>,
-): ActionStats => {
-  const afterById = new Map(afterRobots.map((robot) => [robot.id, robot]));
-  beforeRobots.forEach((robot, index) => {
-    const action = actions[index];
-    if (!action) {
-      return;
-    }
-    if (action === 'WAIT') {
-      stats.waitCount += 1;
-      return;
-    }
-    const nextRobot = afterById.get(robot.id);
-    if (action === 'MOVE_FORWARD') {
-      if (!nextRobot) {
+const updateActionStats = (stats: ActionStats, tickEvents: SimulationEvent[]): ActionStats => {
+  tickEvents.forEach((event) => {
+    switch (event.type) {
+      case 'moved':
         stats.moveCount += 1;
-      } else if (nextRobot.x !== robot.x || nextRobot.y !== robot.y) {
-        stats.moveCount += 1;
-      } else {
-        stats.bumpCount += 1;
-      }
-      return;
-    }
-    if (action === 'TURN_LEFT' || action === 'TURN_RIGHT') {
-      if (!nextRobot || nextRobot.direction !== robot.direction) {
+        break;
+      case 'turned':
         stats.turnCount += 1;
-      }
+        break;
+      case 'bumped_wall':
+      case 'blocked_by_robot':
+        stats.bumpCount += 1;
+        break;
+      case 'waited':
+        stats.waitCount += 1;
+        break;
+      default:
+        break;
     }
   });
   return stats;
 };
 
-const computeScore = (
+const updateMilestones = (
+  reached: boolean[],
+  milestones: ScoringMilestone[],
   robots: RobotState[],
-  exits: { x: number; y: number }[],
-  savedCount: number,
+  tickEvents: SimulationEvent[],
+): boolean[] =>
+  milestones.map(
+    (milestone, index) =>
+      reached[index] ||
+      (milestone.type === 'visit'
+        ? robots.some((robot) => robot.alive && robot.x === milestone.x && robot.y === milestone.y)
+        : tickEvents.some((event) => event.type === milestone.event)),
+  );
+
+const computeScore = (
+  weights: ScoringWeights,
+  simulation: SimulationState,
+  distanceField: DistanceField | null,
   events: EventSummary,
   actionStats: ActionStats,
-  status: 'running' | 'won' | 'lost',
+  milestoneScore: number,
 ): number => {
+  const { robots, savedCount, status } = simulation;
   const aliveCount = robots.filter((robot) => robot.alive).length;
-  const deadCount = robots.length - aliveCount;
-  let score = savedCount * 1200;
+  let score = savedCount * weights.saved + milestoneScore;
   if (events.doorOpened) {
-    score += 80;
+    score += weights.doorOpened;
   }
   if (events.pressurePlatePressed) {
-    score += 40;
+    score += weights.pressurePlatePressed;
   }
   if (events.raftUsed) {
-    score += 90;
-  }
-  if (events.waterTouched) {
-    score += 20;
+    score += weights.raftUsed;
   }
   if (events.anySaved) {
-    score += 150;
+    score += weights.anySaved;
   }
+  score += events.itemsPickedUp * weights.itemPickedUp;
 
   if (status === 'won') {
-    score += 6000;
+    score += weights.won;
   }
 
-  score += aliveCount * 15;
-  score -= deadCount * 25;
+  score += aliveCount * weights.aliveRobot;
+  score += actionStats.moveCount * weights.move;
+  score += actionStats.turnCount * weights.turn;
+  score += actionStats.waitCount * weights.wait;
 
-  score += actionStats.moveCount * 4;
-  score += actionStats.turnCount * 2;
-  score -= actionStats.bumpCount * 6;
-  score -= actionStats.waitCount * 2;
-
-  if (exits.length > 0) {
+  if (distanceField) {
     let minDistance = Infinity;
     robots.forEach((robot) => {
       if (!robot.alive) {
         return;
       }
-      exits.forEach((exit) => {
-        const distance = Math.abs(exit.x - robot.x) + Math.abs(exit.y - robot.y);
-        minDistance = Math.min(minDistance, distance);
-      });
+      minDistance = Math.min(minDistance, getPathDistance(distanceField, robot.x, robot.y));
     });
     if (minDistance !== Infinity) {
-      score += Math.max(0, 150 - minDistance * 4);
+      score += Math.max(0, weights.proximity + minDistance * weights.distanceStep);
     }
   }
 
   return score;
 };
 
-export const evaluate = (
-  program: SolverProgram,
-  level: SolverLevelDefinition,
-  options: EvalOptions = {},
-): EvalResult => {
-  const compiledProgram = toProgramNode(program);
-  let simulation = createSimulationForLevel(level, options);
-  const vmStates = new Map<string, ReturnType<typeof createVm>>();
-  const sampleEvery = normalizeSampleEvery(
-    options.sampleEvery ?? DEFAULT_SAMPLE_EVERY,
+const computeOutcomeScore = (
+  weights: ScoringWeights,
+  simulation: SimulationState,
+  events: EventSummary,
+  actionStats: ActionStats,
+): number => {
+  const deadCount = simulation.robots.filter((robot) => !robot.alive).length;
+  return (
+    deadCount * weights.deadRobot +
+    actionStats.bumpCount * weights.bump +
+    (events.waterTouched ? weights.waterTouched : 0) +
+    simulation.stepCount * weights.tick
   );
-  const traceLite: TraceLite = {
-    sampleEvery,
-    frames: [],
-  };
-  let events: EventSummary = {
-    doorOpened: false,
-    pressurePlatePressed: false,
-    raftUsed: false,
-    waterTouched: false,
-    anySaved: false,
-  };
-  let actionStats: ActionStats = {
-    moveCount: 0,
-    turnCount: 0,
-    bumpCount: 0,
-    waitCount: 0,
+};
+
+interface EvalRun {
+  simulation: SimulationState;
+  distanceField: DistanceField | null;
+  vmStates: Map<string, BytecodeVmState>;
+  events: EventSummary;
+  actionStats: ActionStats;
+  milestonesReached: boolean[];
+  bestScore: number;
+  bestRobots: RobotState[];
+  frames: TraceLiteFrame[][];
+  tickIndex: number;
+  stuck: boolean;
+  seenStates: Set<string>;
+}
+
+export type EvalSnapshot =
+  | { kind: 'resumable'; run: EvalRun; actions: RobotAction[] }
+  | { kind: 'finished'; result: EvalResult; actions: RobotAction[] };
+
+export interface IncrementalEvalResult {
+  result: EvalResult;
+  snapshot?: EvalSnapshot;
+}
+
+const distanceFieldCache = new WeakMap<SolverLevelDefinition, DistanceField | null>();
+
+const getDistanceField = (
+  level: SolverLevelDefinition,
+  simulation: SimulationState,
+): DistanceField | null => {
+  let field = distanceFieldCache.get(level);
+  if (field === undefined) {
+    field =
+      simulation.exits.length > 0
+        ? buildDistanceField(simulation.world, simulation.exits, simulation.teleporters)
+        : null;
+    distanceFieldCache.set(level, field);
+  }
+  return field;
+};
+
+const startRun = (level: SolverLevelDefinition, options: EvalOptions): EvalRun => {
+  const simulation = createSimulationForLevel(level, options);
+  return {
+    simulation,
+    distanceField: getDistanceField(level, simulation),
+    vmStates: new Map(),
+    events: {
+      doorOpened: false,
+      pressurePlatePressed: false,
+      raftUsed: false,
+      waterTouched: false,
+      anySaved: false,
+      itemsPickedUp: 0,
+    },
+    actionStats: {
+      moveCount: 0,
+      turnCount: 0,
+      bumpCount: 0,
+      waitCount: 0,
+    },
+    milestonesReached: [],
+    bestScore: -Infinity,
+    bestRobots: snapshotRobots(simulation.robots),
+    frames: [snapshotFrame(simulation.robots)],
+    tickIndex: 0,
+    stuck: false,
+    seenStates: new Set(),
   };
-  let bestScore = -Infinity;
-  let bestRobots = snapshotRobots(simulation.robots);
-  let tickIndex = 0;
-
-  traceLite.frames.push(snapshotFrame(simulation.robots));
-
-  while (simulation.status === 'running') {
-    const actions: Array<RobotAction | undefined> = [];
-    let sawStepLimit = false;
-    const doorOpen = isDoorOpen(
-      simulation.world,
-      simulation.robots,
-      simulation.doorUnlocked,
+};
+
+const cloneRun = (run: EvalRun): EvalRun => ({
+  ...run,
+  vmStates: new Map(run.vmStates),
+  actionStats: { ...run.actionStats },
+  frames: [...run.frames],
+  seenStates: new Set(run.seenStates),
+});
+
+const isStraightLine = (program: SolverProgram): boolean =>
+  program.steps.every((step) => step.type === 'action');
+
+const isActiveRobot = (robot: RobotState): boolean =>
+  robot.alive && !robot.reachedGoal && !robot.isBlocker;
+
+const readsPastEnd = (run: EvalRun, programLength: number): boolean =>
+  run.simulation.robots.some((robot) => {
+    const robotVm = run.vmStates.get(robot.id);
+    return (
+      isActiveRobot(robot) &&
+      (!robotVm || robotVm.status === 'running') &&
+      (robotVm?.pc ?? 0) === programLength
     );
-    const occupiedPositions = new Set<string>();
-    simulation.robots.forEach((robot) => {
-      if (robot.alive && !robot.reachedGoal) {
-        occupiedPositions.add(`${robot.x},${robot.y}`);
-      }
-    });
+  });
 
-    simulation.robots.forEach((robot) => {
-      let robotVm = vmStates.get(robot.id);
-      if (!robotVm) {
-        robotVm = createVm(compiledProgram, options.maxVmSteps ?? simulation.maxSteps);
-        vmStates.set(robot.id, robotVm);
-      }
+const runTick = (
+  run: EvalRun,
+  compiledProgram: BytecodeProgram,
+  options: EvalOptions,
+  sampleEvery: number,
+  weights: ScoringWeights,
+) => {
+  let { simulation } = run;
+  const { vmStates } = run;
+  const actions: Array<RobotAction | undefined> = [];
+  let tickEvents: SimulationEvent[] = [];
+  let sawStepLimit = false;
+  const openDoors = listOpenDoors(
+    simulation.world,
+    simulation.robots,
+    simulation.channels,
+    simulation.openChannels,
+  );
+  const occupiedPositions = new Set<string>();
+  simulation.robots.forEach((robot) => {
+    if (robot.alive && !robot.reachedGoal) {
+      occupiedPositions.add(`${robot.x},${robot.y}`);
+    }
+  });
 
-      if (!robot.alive || robot.reachedGoal || robotVm.status !== 'running') {
-        actions.push(undefined);
-        return;
-      }
+  simulation.robots.forEach((robot) => {
+    let robotVm = vmStates.get(robot.id);
+    if (!robotVm) {
+      robotVm = createBytecodeVm(
+        compiledProgram,
+        options.maxVmSteps ?? simulation.maxSteps,
+      );
+      vmStates.set(robot.id, robotVm);
+    }
 
-      const vmResult = stepVm(robotVm, {
-        world: simulation.world,
-        robot,
-        exits: simulation.exits,
-        doorOpen,
-        occupiedPositions,
-      });
-      vmStates.set(robot.id, vmResult.state);
-      actions.push(vmResult.action);
-
-      if (vmResult.state.status === 'step_limit') {
-        sawStepLimit = true;
-      }
+    if (!isActiveRobot(robot) || robotVm.status !== 'running') {
+      actions.push(undefined);
+      return;
+    }
+
+    const vmResult = stepBytecodeVm(robotVm, {
+      world: simulation.world,
+      robot,
+      exits: simulation.exits,
+      openDoors: listUnlockedDoors(simulation.world, simulation.items, robot, openDoors),
+      occupiedPositions,
+      signalRaised: simulation.signalRaised,
     });
+    vmStates.set(robot.id, vmResult.state);
+    actions.push(vmResult.action);
 
-    const hasRemainingSpawns =
-      simulation.spawnedCount < simulation.spawner.count;
     if (
-      actions.some((action) => action) ||
-      (simulation.robots.length === 0 && hasRemainingSpawns)
+      vmResult.state.status === 'step_limit' ||
+      vmResult.state.status === 'recursion_limit' ||
+      vmResult.state.status === 'no_progress'
     ) {
-      const beforeRobots = snapshotRobots(simulation.robots);
-      simulation = stepSimulation(simulation, actions);
-      actionStats = updateActionStats(
-        actionStats,
-        beforeRobots,
-        simulation.robots,
-        actions,
-      );
-    } else if (!hasRemainingSpawns) {
-      simulation = { ...simulation, status: 'lost' };
+      sawStepLimit = true;
     }
+  });
 
-    if (sawStepLimit && simulation.status === 'running') {
-      simulation = { ...simulation, status: 'lost' };
-    }
+  const hasRemainingSpawns =
+    simulation.spawnedCount < simulation.spawner.count;
+  if (
+    actions.some((action) => action) ||
+    (simulation.robots.length === 0 && hasRemainingSpawns)
+  ) {
+    simulation = stepSimulation(simulation, actions);
+    tickEvents = simulation.events;
+    run.actionStats = updateActionStats(run.actionStats, tickEvents);
+  } else if (!hasRemainingSpawns) {
+    simulation = { ...simulation, status: 'lost' };
+  }
 
-    events = updateEvents(
-      events,
-      simulation.robots,
-      simulation.world,
-      isDoorOpen(simulation.world, simulation.robots, simulation.doorUnlocked),
-      simulation.savedCount,
-    );
+  if (sawStepLimit && simulation.status === 'running') {
+    simulation = { ...simulation, status: 'lost' };
+  }
 
-    const score = computeScore(
-      simulation.robots,
-      simulation.exits,
-      simulation.savedCount,
-      events,
-      actionStats,
-      simulation.status,
+  if ((options.detectLoops ?? true) && simulation.status === 'running') {
+    const fingerprint = fingerprintSimulation(
+      simulation,
+      simulation.robots.map((robot) => {
+        const robotVm = vmStates.get(robot.id);
+        return robotVm ? fingerprintBytecodeVm(robotVm) : '-';
+      }),
     );
-    if (score > bestScore) {
-      bestScore = score;
-      bestRobots = snapshotRobots(simulation.robots);
+    if (run.seenStates.has(fingerprint)) {
+      simulation = { ...simulation, status: 'lost' };
+      run.stuck = true;
+    } else {
+      run.seenStates.add(fingerprint);
     }
+  }
 
-    tickIndex += 1;
-    if (tickIndex % sampleEvery === 0) {
-      traceLite.frames.push(snapshotFrame(simulation.robots));
-    }
+  run.simulation = simulation;
+  run.events = updateEvents(run.events, simulation.robots, simulation.world, tickEvents);
+
+  const milestones = options.scoring?.milestones ?? [];
+  run.milestonesReached = updateMilestones(
+    run.milestonesReached,
+    milestones,
+    simulation.robots,
+    tickEvents,
+  );
+  const score = computeScore(
+    weights,
+    simulation,
+    run.distanceField,
+    run.events,
+    run.actionStats,
+    milestones.reduce(
+      (total, milestone, index) =>
+        run.milestonesReached[index] ? total + milestone.weight : total,
+      0,
+    ),
+  );
+  if (score > run.bestScore) {
+    run.bestScore = score;
+    run.bestRobots = snapshotRobots(simulation.robots);
   }
 
-  if (tickIndex % sampleEvery !== 0) {
-    traceLite.frames.push(snapshotFrame(simulation.robots));
+  run.tickIndex += 1;
+  if (run.tickIndex % sampleEvery === 0) {
+    run.frames.push(snapshotFrame(simulation.robots));
   }
+};
 
+const finishRun = (run: EvalRun, sampleEvery: number, weights: ScoringWeights): EvalResult => {
+  const frames =
+    run.tickIndex % sampleEvery !== 0
+      ? [...run.frames, snapshotFrame(run.simulation.robots)]
+      : run.frames;
   return {
-    solved: simulation.status === 'won',
-    score: bestScore,
-    ticks: simulation.stepCount,
-    finalRobots: snapshotRobots(simulation.robots),
-    bestRobots,
-    events,
-    traceLite,
+    solved: run.simulation.status === 'won',
+    score:
+      run.bestScore +
+      computeOutcomeScore(weights, run.simulation, run.events, run.actionStats),
+    ticks: run.simulation.stepCount,
+    finalRobots: snapshotRobots(run.simulation.robots),
+    bestRobots: run.bestRobots,
+    events: run.events,
+    traceLite: { sampleEvery, frames },
+    stuck: run.stuck,
   };
 };
+
+export const evaluateIncremental = (
+  program: SolverProgram,
+  level: SolverLevelDefinition,
+  options: EvalOptions = {},
+  parent?: EvalSnapshot,
+): IncrementalEvalResult => {
+  const straightLine = isStraightLine(program);
+  const actions = program.steps.flatMap((step) => (step.type === 'action' ? [step.action] : []));
+  const extendsParent =
+    straightLine &&
+    parent !== undefined &&
+    parent.actions.length <= actions.length &&
+    parent.actions.every((action, index) => action === actions[index]);
+  if (extendsParent && parent.kind === 'finished') {
+    return { result: parent.result, snapshot: parent };
+  }
+
+  const compiledProgram = compileSolverProgram(program);
+  const sampleEvery = normalizeSampleEvery(
+    options.sampleEvery ?? DEFAULT_SAMPLE_EVERY,
+  );
+  const weights = resolveScoringWeights(options.scoring);
+  const canResume = extendsParent && parent.kind === 'resumable';
+  const run = canResume ? cloneRun(parent.run) : startRun(level, options);
+  if (canResume) {
+    run.vmStates.forEach((robotVm, robotId) => {
+      run.vmStates.set(robotId, { ...robotVm, program: compiledProgram });
+    });
+  }
+
+  let snapshot: EvalSnapshot | undefined;
+  while (run.simulation.status === 'running') {
+    if (straightLine && !snapshot && readsPastEnd(run, program.steps.length)) {
+      snapshot = { kind: 'resumable', run: cloneRun(run), actions };
+    }
+    runTick(run, compiledProgram, options, sampleEvery, weights);
+  }
+
+  const result = finishRun(run, sampleEvery, weights);
+  if (straightLine && !snapshot) {
+    snapshot = { kind: 'finished', result, actions };
+  }
+  return { result, snapshot };
+};
+
+export const evaluate = (
+  program: SolverProgram,
+  level: SolverLevelDefinition,
+  options: EvalOptions = {},
+): EvalResult => evaluateIncremental(program, level, options).result;
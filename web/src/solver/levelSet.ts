@@ -0,0 +1,49 @@
+import { evaluate } from './evaluate';
+import type {
+  EvalOptions,
+  EvalResult,
+  SolverLevelDefinition,
+  SolverLevelOutcome,
+  SolverProgram,
+} from './types';
+
+export interface LevelSetEvaluation {
+  result: EvalResult;
+  outcomes: SolverLevelOutcome[];
+}
+
+const toOutcome = (level: SolverLevelDefinition, result: EvalResult): SolverLevelOutcome => ({
+  id: level.id,
+  name: level.name,
+  solved: result.solved,
+  score: result.score,
+});
+
+const optionsForLevel = (level: SolverLevelDefinition, options: EvalOptions): EvalOptions =>
+  level.maxTicks === undefined
+    ? options
+    : { ...options, maxTicks: level.maxTicks, maxVmSteps: level.maxTicks };
+
+export const evaluateLevelSet = (
+  program: SolverProgram,
+  level: SolverLevelDefinition,
+  extraLevels: SolverLevelDefinition[],
+  options: EvalOptions = {},
+): LevelSetEvaluation => {
+  const primary = evaluate(program, level, options);
+  const extras = extraLevels.map((extraLevel) =>
+    evaluate(program, extraLevel, optionsForLevel(extraLevel, options)),
+  );
+  return {
+    result: {
+      ...primary,
+      solved: primary.solved && extras.every((result) => result.solved),
+      score: extras.reduce((total, result) => total + result.score, primary.score),
+      ticks: extras.reduce((total, result) => total + result.ticks, primary.ticks),
+    },
+    outcomes: [
+      toOutcome(level, primary),
+      ...extraLevels.map((extraLevel, index) => toOutcome(extraLevel, extras[index])),
+    ],
+  };
+};
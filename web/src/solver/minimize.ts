@@ -0,0 +1,235 @@
+import type { RobotAction } from '../engine/robot';
+import { evaluateLevelSet } from './levelSet';
+import { listSequencePaths, getSequence, updateSequence } from './repair';
+import type {
+  EvalOptions,
+  EvalResult,
+  SolverAstNode,
+  SolverLevelDefinition,
+  SolverLevelOutcome,
+  SolverProgram,
+  SolverSequencePath,
+} from './types';
+
+const DEFAULT_MINIMIZE_ATTEMPTS = 200;
+const MAX_FOLD_PATTERN = 3;
+
+export interface MinimizeResult {
+  program: SolverProgram;
+  evaluation: EvalResult;
+  outcomes: SolverLevelOutcome[];
+  attempts: number;
+}
+
+interface LoopFold {
+  program: SolverProgram;
+  saved: number;
+}
+
+const OPPOSITE_TURNS: Partial<Record<RobotAction, RobotAction>> = {
+  TURN_LEFT: 'TURN_RIGHT',
+  TURN_RIGHT: 'TURN_LEFT',
+};
+
+const actionOf = (step: SolverAstNode | undefined): RobotAction | undefined =>
+  step?.type === 'action' ? step.action : undefined;
+
+const isTurn = (action: RobotAction | undefined): boolean =>
+  action === 'TURN_LEFT' || action === 'TURN_RIGHT';
+
+const spliceSteps = (
+  program: SolverProgram,
+  path: SolverSequencePath,
+  index: number,
+  count: number,
+  replacement: SolverAstNode[] = [],
+): SolverProgram =>
+  updateSequence(program, path, (sequence) => ({
+    type: 'sequence',
+    steps: [
+      ...sequence.steps.slice(0, index),
+      ...replacement,
+      ...sequence.steps.slice(index + count),
+    ],
+  }));
+
+const listNoOpRemovals = (program: SolverProgram): SolverProgram[] =>
+  listSequencePaths(program).flatMap((path) => {
+    const steps = getSequence(program, path)?.steps ?? [];
+    return steps.flatMap((step, index): SolverProgram[] => {
+      const action = actionOf(step);
+      if (!isTurn(action)) {
+        return [];
+      }
+      const removals: SolverProgram[] = [];
+      if (action && actionOf(steps[index + 1]) === OPPOSITE_TURNS[action]) {
+        removals.push(spliceSteps(program, path, index, 2));
+      }
+      const quarterTurns = steps.slice(index, index + 4);
+      if (quarterTurns.length === 4 && quarterTurns.every((turn) => actionOf(turn) === action)) {
+        removals.push(spliceSteps(program, path, index, 4));
+      }
+      return removals;
+    });
+  });
+
+const countRepeats = (steps: SolverAstNode[], index: number, length: number): number => {
+  const pattern = JSON.stringify(steps.slice(index, index + length));
+  let count = 1;
+  while (
+    index + (count + 1) * length <= steps.length &&
+    JSON.stringify(steps.slice(index + count * length, index + (count + 1) * length)) === pattern
+  ) {
+    count += 1;
+  }
+  return count;
+};
+
+const listLoopFolds = (program: SolverProgram): LoopFold[] =>
+  listSequencePaths(program)
+    .flatMap((path) => {
+      const steps = getSequence(program, path)?.steps ?? [];
+      return Array.from({ length: MAX_FOLD_PATTERN }, (_, offset) => offset + 1).flatMap(
+        (length) =>
+          steps.flatMap((_, index): LoopFold[] => {
+            const count = countRepeats(steps, index, length);
+            const saved = (count - 1) * length - 1;
+            if (count < 2 || saved <= 0) {
+              return [];
+            }
+            const body: SolverProgram = {
+              type: 'sequence',
+              steps: steps.slice(index, index + length),
+            };
+            return [
+              {
+                saved,
+                program: spliceSteps(program, path, index, count * length, [
+                  { type: 'repeat', count, body },
+                ]),
+              },
+            ];
+          }),
+      );
+    })
+    .sort((a, b) => b.saved - a.saved);
+
+const MINIMIZE_PHASES = ['trim_after_win', 'drop_trailing', 'remove_no_ops', 'fold_loops'] as const;
+
+type MinimizePhase = (typeof MINIMIZE_PHASES)[number];
+
+const listRewrites = (
+  phase: MinimizePhase,
+  program: SolverProgram,
+  evaluation: EvalResult,
+): SolverProgram[] => {
+  switch (phase) {
+    case 'trim_after_win':
+      return program.steps.every((step) => step.type === 'action') &&
+        evaluation.ticks < program.steps.length
+        ? [{ type: 'sequence', steps: program.steps.slice(0, evaluation.ticks) }]
+        : [];
+    case 'drop_trailing':
+      return program.steps.length > 0
+        ? [{ type: 'sequence', steps: program.steps.slice(0, -1) }]
+        : [];
+    case 'remove_no_ops':
+      return listNoOpRemovals(program);
+    case 'fold_loops':
+      return listLoopFolds(program).map((fold) => fold.program);
+    default: {
+      const _exhaustive: never = phase;
+      return _exhaustive;
+    }
+  }
+};
+
+export interface ProgramMinimizer {
+  step: () => boolean;
+  getResult: () => MinimizeResult;
+}
+
+export const createProgramMinimizer = (
+  program: SolverProgram,
+  level: SolverLevelDefinition,
+  evalOptions?: EvalOptions,
+  extraLevels: SolverLevelDefinition[] = [],
+  maxAttempts = DEFAULT_MINIMIZE_ATTEMPTS,
+): ProgramMinimizer => {
+  let current = program;
+  let evaluation: EvalResult | undefined;
+  let outcomes: SolverLevelOutcome[] = [];
+  let attempts = 0;
+  let phaseIndex = 0;
+  let rewrites: SolverProgram[] | null = null;
+  let rewriteIndex = 0;
+  let done = false;
+
+  const evaluateProgram = (candidate: SolverProgram) => {
+    attempts += 1;
+    return evaluateLevelSet(candidate, level, extraLevels, evalOptions);
+  };
+
+  const evaluateInitial = (): EvalResult => {
+    const initial = evaluateProgram(current);
+    evaluation = initial.result;
+    outcomes = initial.outcomes;
+    return initial.result;
+  };
+
+  return {
+    step: () => {
+      if (done) {
+        return true;
+      }
+      if (!evaluation) {
+        done = !evaluateInitial().solved;
+        return done;
+      }
+      if (attempts >= maxAttempts || phaseIndex >= MINIMIZE_PHASES.length) {
+        done = true;
+        return done;
+      }
+      if (!rewrites) {
+        rewrites = listRewrites(MINIMIZE_PHASES[phaseIndex], current, evaluation);
+        rewriteIndex = 0;
+      }
+      if (rewriteIndex >= rewrites.length) {
+        phaseIndex += 1;
+        rewrites = null;
+        return false;
+      }
+      const candidate = rewrites[rewriteIndex];
+      rewriteIndex += 1;
+      const candidateEvaluation = evaluateProgram(candidate);
+      if (candidateEvaluation.result.solved) {
+        current = candidate;
+        evaluation = candidateEvaluation.result;
+        outcomes = candidateEvaluation.outcomes;
+        rewrites = null;
+      }
+      return false;
+    },
+    getResult: () => ({
+      program: current,
+      evaluation: evaluation ?? evaluateInitial(),
+      outcomes,
+      attempts,
+    }),
+  };
+};
+
+export const minimizeProgram = (
+  program: SolverProgram,
+  level: SolverLevelDefinition,
+  evalOptions?: EvalOptions,
+  extraLevels: SolverLevelDefinition[] = [],
+  maxAttempts = DEFAULT_MINIMIZE_ATTEMPTS,
+): MinimizeResult => {
+  const minimizer = createProgramMinimizer(program, level, evalOptions, extraLevels, maxAttempts);
+  let finished = minimizer.step();
+  while (!finished) {
+    finished = minimizer.step();
+  }
+  return minimizer.getResult();
+};
@@ -0,0 +1,170 @@
+import type {
+  SolverWorkerMessage,
+  SolverWorkerProgressPayload,
+  SolverWorkerResponse,
+} from './types';
+
+const MAX_POOL_SIZE = 4;
+
+export interface SolverPoolWorker {
+  postMessage: (message: SolverWorkerMessage) => void;
+  addEventListener: (
+    type: 'message',
+    listener: (event: MessageEvent<SolverWorkerResponse>) => void,
+  ) => void;
+  terminate: () => void;
+}
+
+export interface SolverPool {
+  size: number;
+  postMessage: (message: SolverWorkerMessage) => void;
+  terminate: () => void;
+}
+
+export const getSolverPoolSize = (hardwareConcurrency?: number): number => {
+  if (typeof hardwareConcurrency !== 'number' || !Number.isFinite(hardwareConcurrency)) {
+    return 1;
+  }
+  return Math.max(1, Math.min(MAX_POOL_SIZE, Math.floor(hardwareConcurrency) - 1));
+};
+
+const splitAttempts = (maxAttempts: number | undefined, size: number) =>
+  typeof maxAttempts === 'number' ? Math.max(1, Math.ceil(maxAttempts / size)) : undefined;
+
+const mergeProgress = (
+  payloads: Array<SolverWorkerProgressPayload | undefined>,
+): SolverWorkerProgressPayload => {
+  const reported = payloads.filter(
+    (payload): payload is SolverWorkerProgressPayload => payload !== undefined,
+  );
+  const best = reported.reduce<SolverWorkerProgressPayload | undefined>(
+    (current, payload) => (!current || payload.bestScore > current.bestScore ? payload : current),
+    undefined,
+  );
+  return {
+    attemptCount: reported.reduce((total, payload) => total + payload.attemptCount, 0),
+    bestScore: best?.bestScore ?? -Infinity,
+    elapsedMs: reported.reduce((latest, payload) => Math.max(latest, payload.elapsedMs), 0),
+    bestProgram: best?.bestProgram,
+    bestTrace: best?.bestTrace,
+    bestLevels: best?.bestLevels,
+  };
+};
+
+export const createSolverPool = (
+  size: number,
+  createWorker: () => SolverPoolWorker,
+  onResponse: (response: SolverWorkerResponse) => void,
+): SolverPool => {
+  const workers = Array.from({ length: Math.max(1, size) }, createWorker);
+  let progress: Array<SolverWorkerProgressPayload | undefined> = [];
+  let finished: boolean[] = [];
+  let solvedBy: number | null = null;
+  let active = false;
+  let generation = 0;
+
+  const broadcast = (message: SolverWorkerMessage) => {
+    workers.forEach((worker) => worker.postMessage(message));
+  };
+
+  const handleResponse = (index: number, response: SolverWorkerResponse) => {
+    if (response.type === 'repair') {
+      onResponse(response);
+      return;
+    }
+    if (!active || response.generation !== generation) {
+      return;
+    }
+    progress[index] = response.payload;
+
+    if (response.type === 'progress') {
+      onResponse({ type: 'progress', payload: mergeProgress(progress) });
+      return;
+    }
+
+    finished[index] = true;
+    if (response.payload.solved && solvedBy === null) {
+      solvedBy = index;
+      workers.forEach((worker, workerIndex) => {
+        if (!finished[workerIndex]) {
+          worker.postMessage({ type: 'cancel' });
+          finished[workerIndex] = true;
+        }
+      });
+    }
+    if (finished.every(Boolean)) {
+      active = false;
+      const merged = mergeProgress(progress);
+      const solvedPayload = solvedBy === null ? undefined : progress[solvedBy];
+      onResponse({
+        type: 'result',
+        payload: {
+          ...merged,
+          bestScore: solvedPayload?.bestScore ?? merged.bestScore,
+          bestProgram: solvedPayload?.bestProgram ?? merged.bestProgram,
+          bestTrace: solvedPayload?.bestTrace ?? merged.bestTrace,
+          bestLevels: solvedPayload?.bestLevels ?? merged.bestLevels,
+          solved: solvedBy !== null,
+        },
+      });
+    }
+  };
+
+  workers.forEach((worker, index) => {
+    worker.addEventListener('message', (event) => handleResponse(index, event.data));
+  });
+
+  return {
+    size: workers.length,
+    postMessage: (message) => {
+      switch (message.type) {
+        case 'start': {
+          progress = workers.map(() => undefined);
+          finished = workers.map(() => false);
+          solvedBy = null;
+          active = true;
+          generation += 1;
+          const { search } = message.payload;
+          workers.forEach((worker, index) => {
+            worker.postMessage({
+              type: 'start',
+              payload: {
+                ...message.payload,
+                generation,
+                search: {
+                  ...search,
+                  maxAttempts: splitAttempts(search.maxAttempts, workers.length),
+                  partition:
+                    workers.length > 1 ? { index, count: workers.length } : undefined,
+                },
+              },
+            });
+          });
+          return;
+        }
+        case 'cancel':
+          active = false;
+          broadcast(message);
+          return;
+        case 'repair':
+          workers[0].postMessage(message);
+          return;
+        case 'budget':
+          broadcast({
+            type: 'budget',
+            payload: {
+              ...message.payload,
+              maxAttempts: splitAttempts(message.payload.maxAttempts, workers.length),
+            },
+          });
+          return;
+        default:
+          broadcast(message);
+      }
+    },
+    terminate: () => {
+      active = false;
+      workers.forEach((worker) => worker.terminate());
+    },
+  };
+};
@@ -0,0 +1,204 @@
+import type { RobotAction } from '../engine/robot';
+import { evaluate } from './evaluate';
+import type {
+  EvalOptions,
+  SolverAstNode,
+  SolverLevelDefinition,
+  SolverProgram,
+  SolverRepairEdit,
+  SolverRepairResult,
+  SolverSequencePath,
+} from './types';
+
+const DEFAULT_REPAIR_ATTEMPTS = 400;
+const DEFAULT_REPAIR_TIME_MS = 1500;
+const MAX_REPEAT_COUNT = 10;
+
+export interface RepairOptions {
+  actions: RobotAction[];
+  maxAttempts?: number;
+  maxTimeMs?: number;
+}
+
+const getChildSequence = (
+  step: SolverAstNode | undefined,
+  branch: SolverSequencePath[number],
+): SolverProgram | undefined => {
+  if (!step || step.type === 'action') {
+    return undefined;
+  }
+  if (step.type === 'if') {
+    return branch === 'then' ? step.thenBranch : branch === 'else' ? step.elseBranch : undefined;
+  }
+  return branch === 'body' ? step.body : undefined;
+};
+
+export const getSequence = (
+  program: SolverProgram,
+  path: SolverSequencePath,
+): SolverProgram | undefined => {
+  if (path.length === 0) {
+    return program;
+  }
+  const [index, branch, ...rest] = path;
+  const child =
+    typeof index === 'number' ? getChildSequence(program.steps[index], branch) : undefined;
+  return child ? getSequence(child, rest) : undefined;
+};
+
+export const updateSequence = (
+  program: SolverProgram,
+  path: SolverSequencePath,
+  update: (sequence: SolverProgram) => SolverProgram,
+): SolverProgram => {
+  if (path.length === 0) {
+    return update(program);
+  }
+  const [index, branch, ...rest] = path;
+  return {
+    type: 'sequence',
+    steps: program.steps.map((step, stepIndex): SolverAstNode => {
+      if (stepIndex !== index || step.type === 'action') {
+        return step;
+      }
+      if (step.type === 'if') {
+        if (branch === 'then') {
+          return { ...step, thenBranch: updateSequence(step.thenBranch, rest, update) };
+        }
+        return step.elseBranch && branch === 'else'
+          ? { ...step, elseBranch: updateSequence(step.elseBranch, rest, update) }
+          : step;
+      }
+      return { ...step, body: updateSequence(step.body, rest, update) };
+    }),
+  };
+};
+
+export const listSequencePaths = (
+  program: SolverProgram,
+  path: SolverSequencePath = [],
+): SolverSequencePath[] => [
+  path,
+  ...program.steps.flatMap((step, index): SolverSequencePath[] => {
+    switch (step.type) {
+      case 'action':
+        return [];
+      case 'if':
+        return [
+          ...listSequencePaths(step.thenBranch, [...path, index, 'then']),
+          ...(step.elseBranch ? listSequencePaths(step.elseBranch, [...path, index, 'else']) : []),
+        ];
+      default:
+        return listSequencePaths(step.body, [...path, index, 'body']);
+    }
+  }),
+];
+
+export const listRepairEdits = (
+  program: SolverProgram,
+  actions: RobotAction[],
+): SolverRepairEdit[] =>
+  listSequencePaths(program).flatMap((path) => {
+    const sequence = getSequence(program, path);
+    if (!sequence) {
+      return [];
+    }
+    const changes = sequence.steps.flatMap((step, index): SolverRepairEdit[] => {
+      if (step.type === 'action') {
+        return actions
+          .filter((action) => action !== step.action)
+          .map((action) => ({ type: 'replace', path, index, action }));
+      }
+      if (step.type === 'repeat') {
+        return Array.from({ length: MAX_REPEAT_COUNT }, (_, offset) => offset + 1)
+          .filter((count) => count !== step.count)
+          .map((count) => ({ type: 'set_count', path, index, count }));
+      }
+      return [];
+    });
+    const deletions = sequence.steps.map(
+      (_, index): SolverRepairEdit => ({ type: 'delete', path, index }),
+    );
+    const insertions = Array.from({ length: sequence.steps.length + 1 }, (_, index) =>
+      actions.map((action): SolverRepairEdit => ({ type: 'insert', path, index, action })),
+    ).flat();
+    return [...changes, ...deletions, ...insertions];
+  });
+
+export const applyRepairEdit = (
+  program: SolverProgram,
+  edit: SolverRepairEdit,
+): SolverProgram =>
+  updateSequence(program, edit.path, (sequence) => {
+    const steps = [...sequence.steps];
+    switch (edit.type) {
+      case 'insert':
+        steps.splice(edit.index, 0, { type: 'action', action: edit.action });
+        break;
+      case 'delete':
+        steps.splice(edit.index, 1);
+        break;
+      case 'replace':
+        steps[edit.index] = { type: 'action', action: edit.action };
+        break;
+      case 'set_count': {
+        const step = steps[edit.index];
+        if (step?.type === 'repeat') {
+          steps[edit.index] = { ...step, count: edit.count };
+        }
+        break;
+      }
+      default: {
+        const _exhaustive: never = edit;
+        return _exhaustive;
+      }
+    }
+    return { type: 'sequence', steps };
+  });
+
+export const findRepair = (
+  program: SolverProgram,
+  level: SolverLevelDefinition,
+  options: RepairOptions,
+  evalOptions?: EvalOptions,
+): SolverRepairResult => {
+  const start = Date.now();
+  const maxAttempts = options.maxAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+  const maxTimeMs = options.maxTimeMs ?? DEFAULT_REPAIR_TIME_MS;
+  const baseline = evaluate(program, level, evalOptions);
+  let best: SolverRepairResult = {
+    edit: null,
+    solved: baseline.solved,
+    score: baseline.score,
+    baselineScore: baseline.score,
+    attemptCount: 1,
+  };
+  if (baseline.solved) {
+    return best;
+  }
+
+  const edits = listRepairEdits(program, options.actions);
+  let attemptCount = 1;
+  for (const edit of edits) {
+    if (attemptCount >= maxAttempts || Date.now() - start >= maxTimeMs) {
+      break;
+    }
+    attemptCount += 1;
+    const repaired = applyRepairEdit(program, edit);
+    const evaluation = evaluate(repaired, level, evalOptions);
+    const isBetter = evaluation.solved
+      ? !best.solved || evaluation.score > best.score
+      : !best.solved && evaluation.score > best.score;
+    if (isBetter) {
+      best = {
+        ...best,
+        edit,
+        program: repaired,
+        solved: evaluation.solved,
+        score: evaluation.score,
+      };
+    }
+  }
+
+  return { ...best, attemptCount };
+};
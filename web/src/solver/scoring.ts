@@ -0,0 +1,42 @@
+import type { ScoringProfile, ScoringWeights } from './types';
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  saved: 1200,
+  won: 6000,
+  anySaved: 150,
+  doorOpened: 80,
+  pressurePlatePressed: 40,
+  raftUsed: 90,
+  waterTouched: 20,
+  itemPickedUp: 100,
+  aliveRobot: 15,
+  deadRobot: -25,
+  move: 4,
+  turn: 2,
+  bump: -6,
+  wait: -2,
+  tick: 0,
+  proximity: 150,
+  distanceStep: -4,
+  programNode: -12,
+};
+
+export type ScoringPresetId = 'balanced' | 'shortest_program' | 'fewest_ticks' | 'safest';
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringProfile> = {
+  balanced: {},
+  shortest_program: {
+    weights: { programNode: -60, move: 1, turn: 0 },
+  },
+  fewest_ticks: {
+    weights: { tick: -12, wait: -20, turn: 0 },
+  },
+  safest: {
+    weights: { deadRobot: -600, bump: -30, waterTouched: -40, aliveRobot: 60 },
+  },
+};
+
+export const resolveScoringWeights = (profile?: ScoringProfile): ScoringWeights => ({
+  ...DEFAULT_SCORING_WEIGHTS,
+  ...profile?.weights,
+});
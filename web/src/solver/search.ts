@@ -1,11 +1,19 @@
 import type {
   EvalOptions,
   EvalResult,
+  ScoringWeights,
+  SolverAstNode,
+  SolverConditionType,
+  SolverLevelOutcome,
   SolverProgram,
   SolverSearchOptions,
+  SolverWorkerBudgetPayload,
   SolverWorkerProgressPayload,
 } from './types';
-import { evaluate } from './evaluate';
+import { evaluateIncremental, type EvalSnapshot } from './evaluate';
+import { evaluateLevelSet } from './levelSet';
+import { createProgramMinimizer, type ProgramMinimizer } from './minimize';
+import { resolveScoringWeights } from './scoring';
 
 const DEFAULT_PROGRESS_EVERY = 25;
 
@@ -21,14 +29,6 @@ const cloneProgram = (program: SolverProgram): SolverProgram => ({
   steps: program.steps.map((step) => ({ ...step })),
 });
 
-const appendAction = (
-  program: SolverProgram,
-  action: SolverSearchOptions['actions'][number],
-): SolverProgram => ({
-  type: 'sequence',
-  steps: [...program.steps, { type: 'action', action }],
-});
-
 const trimProgram = (program: SolverProgram): SolverProgram => {
   if (program.steps.length === 0) {
     return program;
@@ -39,21 +39,154 @@ const trimProgram = (program: SolverProgram): SolverProgram => {
   };
 };
 
+const DEFAULT_REPEAT_COUNTS = [2, 3, 4];
+
+const MAX_WRAPPED_SUFFIX = 3;
+
+type SolverAction = SolverSearchOptions['actions'][number];
+
+interface Expansion {
+  program: SolverProgram;
+  extendsParent: boolean;
+}
+
+const sequence = (steps: SolverAstNode[]): SolverProgram => ({ type: 'sequence', steps });
+
+export const countProgramNodes = (program: SolverProgram): number =>
+  program.steps.reduce((total, step) => {
+    switch (step.type) {
+      case 'action':
+        return total + 1;
+      case 'if':
+        return (
+          total +
+          1 +
+          countProgramNodes(step.thenBranch) +
+          (step.elseBranch ? countProgramNodes(step.elseBranch) : 0)
+        );
+      default:
+        return total + 1 + countProgramNodes(step.body);
+    }
+  }, 0);
+
+const rankEvaluation = (
+  program: SolverProgram,
+  evaluation: EvalResult,
+  weights: ScoringWeights,
+): number => evaluation.score + countProgramNodes(program) * weights.programNode;
+
+const isStraightLine = (program: SolverProgram): boolean =>
+  program.steps.every((step) => step.type === 'action');
+
+const expandInnermostBody = (
+  program: SolverProgram,
+  expand: (body: SolverProgram, isTopLevel: boolean) => SolverProgram[],
+  isTopLevel = true,
+): SolverProgram[] => {
+  const last = program.steps[program.steps.length - 1];
+  if (last?.type === 'repeat_until') {
+    return expandInnermostBody(last.body, expand, false).map((body) =>
+      sequence([...program.steps.slice(0, -1), { ...last, body }]),
+    );
+  }
+  return expand(program, isTopLevel);
+};
+
+const appendActions = (body: SolverProgram, actions: SolverAction[]): SolverProgram[] =>
+  actions.map((action) => sequence([...body.steps, { type: 'action', action }]));
+
+const wrapSuffixes = (body: SolverProgram): SolverProgram[] => {
+  const wrapped: SolverProgram[] = [];
+  const maxSuffix = Math.min(MAX_WRAPPED_SUFFIX, body.steps.length);
+  for (let length = 1; length <= maxSuffix; length += 1) {
+    const suffix = body.steps.slice(-length);
+    if (suffix.some((step) => step.type === 'repeat')) {
+      continue;
+    }
+    DEFAULT_REPEAT_COUNTS.forEach((count) => {
+      wrapped.push(
+        sequence([
+          ...body.steps.slice(0, -length),
+          { type: 'repeat', count, body: sequence(suffix) },
+        ]),
+      );
+    });
+  }
+  return wrapped;
+};
+
+const insertConditionals = (
+  body: SolverProgram,
+  actions: SolverAction[],
+  conditions: SolverConditionType[],
+): SolverProgram[] => {
+  const last = body.steps[body.steps.length - 1];
+  if (last?.type !== 'action') {
+    return [];
+  }
+  const prefix = body.steps.slice(0, -1);
+  return conditions.flatMap((condition) => {
+    const thenBranch = sequence([last]);
+    const elseBranches = actions
+      .filter((action) => action !== last.action)
+      .map((action) => sequence([{ type: 'action', action }]));
+    return [undefined, ...elseBranches].map((elseBranch) =>
+      sequence([
+        ...prefix,
+        { type: 'if', condition: { kind: 'primitive', condition }, thenBranch, elseBranch },
+      ]),
+    );
+  });
+};
+
+const buildUntilGoalSkeletons = (
+  body: SolverProgram,
+  actions: SolverAction[],
+): SolverProgram[] =>
+  actions.map((action) =>
+    sequence([
+      ...body.steps,
+      {
+        type: 'repeat_until',
+        condition: { kind: 'primitive', condition: 'ON_GOAL' },
+        body: sequence([{ type: 'action', action }]),
+      },
+    ]),
+  );
+
 const expandProgram = (
   program: SolverProgram,
   options: SolverSearchOptions,
-): SolverProgram[] => {
+): Expansion[] => {
   if (options.actions.length === 0) {
-    return [cloneProgram(program)];
+    return [{ program: cloneProgram(program), extendsParent: true }];
   }
-  return options.actions.map((action) => appendAction(program, action));
+  const straightLine = isStraightLine(program);
+  const appended = expandInnermostBody(program, (body) =>
+    appendActions(body, options.actions),
+  ).map((expansion) => ({ program: expansion, extendsParent: straightLine }));
+  const structured = expandInnermostBody(program, (body, isTopLevel) => [
+    ...wrapSuffixes(body),
+    ...insertConditionals(body, options.actions, options.conditions ?? []),
+    ...(isTopLevel ? buildUntilGoalSkeletons(body, options.actions) : []),
+  ]).map((expansion) => ({ program: expansion, extendsParent: false }));
+  return [...appended, ...structured];
 };
 
+interface FrontierNode {
+  program: SolverProgram;
+  eval: EvalResult;
+  rank: number;
+  snapshot?: EvalSnapshot;
+}
+
 export interface SearchState {
   bestProgram?: SolverProgram;
   bestEval?: EvalResult;
+  bestLevels?: SolverLevelOutcome[];
   attempts: number;
   startedAt: number;
+  elapsedMs: number;
 }
 
 export interface SearchResult {
@@ -63,118 +196,249 @@ export interface SearchResult {
 
 export type ProgressCallback = (payload: SolverWorkerProgressPayload) => void;
 
-export const runSolverSearch = (
-  level: Parameters<typeof evaluate>[1],
+export interface SolverSearch {
+  runSlice: (sliceMs: number) => boolean;
+  updateBudget: (budget: SolverWorkerBudgetPayload) => void;
+  getResult: () => SearchResult;
+}
+
+interface LayerState {
+  candidates: FrontierNode[];
+  candidateIndex: number;
+  parent?: FrontierNode;
+  expansions: Expansion[];
+  expansionIndex: number;
+  nextLayer: FrontierNode[];
+}
+
+export const createSolverSearch = (
+  level: Parameters<typeof evaluateIncremental>[1],
   options: SolverSearchOptions,
   evalOptions: EvalOptions | undefined,
   onProgress?: ProgressCallback,
-): SearchResult => {
+): SolverSearch => {
   const start = Date.now();
-  const maxAttempts = clampPositive(options.maxAttempts, 200);
-  const maxTimeMs = clampPositive(options.maxTimeMs, 1500);
-  const maxDepth = clampPositive(options.maxDepth, 25);
-  const beamWidth = clampPositive(options.beamWidth, 20);
+  let maxAttempts = clampPositive(options.maxAttempts, 200);
+  let maxTimeMs = clampPositive(options.maxTimeMs, 1500);
+  let maxDepth = clampPositive(options.maxDepth, 25);
+  let beamWidth = clampPositive(options.beamWidth, 20);
   const progressEvery = clampPositive(
     options.progressEvery,
     DEFAULT_PROGRESS_EVERY,
   );
+  const scoringWeights = resolveScoringWeights(evalOptions?.scoring);
+  const extraLevels = options.extraLevels ?? [];
 
   let bestProgram: SolverProgram | undefined;
   let bestEval: EvalResult | undefined;
+  let bestLevels: SolverLevelOutcome[] | undefined;
+  let bestRank = -Infinity;
   let attempts = 0;
+  const seenPrograms = new Set<string>();
   let solved = false;
+  let solvedProgram: SolverProgram | undefined;
+  let minimizer: ProgramMinimizer | null = null;
+  let finished = false;
+  let started = false;
   let lastProgressAttempt = 0;
-  let frontier: Array<{ program: SolverProgram; eval: EvalResult }> = [];
+  let frontier: FrontierNode[] = [];
+  let layer: LayerState | null = null;
+  let depth = 0;
+  let activeMs = 0;
+  let sliceStart: number | null = null;
+
+  const getElapsedMs = () => activeMs + (sliceStart === null ? 0 : Date.now() - sliceStart);
 
   const shouldContinue = () =>
-    attempts < maxAttempts && Date.now() - start < maxTimeMs;
+    attempts < maxAttempts && getElapsedMs() < maxTimeMs;
 
-  const pushProgress = () => {
-    if (attempts - lastProgressAttempt < progressEvery) {
-      return;
-    }
-    lastProgressAttempt = attempts;
+  const reportProgress = () => {
     onProgress?.({
       attemptCount: attempts,
       bestScore: bestEval?.score ?? -Infinity,
-      elapsedMs: Date.now() - start,
+      elapsedMs: getElapsedMs(),
       bestProgram,
       bestTrace: bestEval?.traceLite,
+      bestLevels,
     });
   };
 
-  const evaluateCandidate = (program: SolverProgram): EvalResult | undefined => {
+  const pushProgress = () => {
+    if (attempts - lastProgressAttempt < progressEvery) {
+      return;
+    }
+    lastProgressAttempt = attempts;
+    reportProgress();
+  };
+
+  const evaluateProgram = (program: SolverProgram, parent?: EvalSnapshot) => {
+    if (extraLevels.length === 0) {
+      return { ...evaluateIncremental(program, level, evalOptions, parent), outcomes: undefined };
+    }
+    return { ...evaluateLevelSet(program, level, extraLevels, evalOptions), snapshot: undefined };
+  };
+
+  const evaluateCandidate = (
+    program: SolverProgram,
+    parent?: EvalSnapshot,
+  ): FrontierNode | undefined => {
     if (!shouldContinue()) {
       return undefined;
     }
     attempts += 1;
-    const evaluation = evaluate(program, level, evalOptions);
-    if (!bestEval || evaluation.score > bestEval.score) {
+    const { result: evaluation, snapshot, outcomes } = evaluateProgram(program, parent);
+    const rank = rankEvaluation(program, evaluation, scoringWeights);
+    if (!bestEval || rank > bestRank) {
       bestEval = evaluation;
+      bestLevels = outcomes;
+      bestRank = rank;
       bestProgram = cloneProgram(program);
     }
-    if (evaluation.solved) {
+    if (evaluation.solved && !solved) {
       solved = true;
+      solvedProgram = cloneProgram(program);
     }
     pushProgress();
-    return evaluation;
+    return { program, eval: evaluation, rank, snapshot };
   };
 
-  const initialProgram: SolverProgram = { type: 'sequence', steps: [] };
-  const initialEval = evaluateCandidate(initialProgram);
-  if (initialEval) {
-    frontier = [{ program: initialProgram, eval: initialEval }];
-  }
+  const finish = () => {
+    finished = true;
+    reportProgress();
+  };
 
-  for (let depth = 0; depth < maxDepth && shouldContinue() && !solved; depth += 1) {
-    const nextLayer: Array<{ program: SolverProgram; eval: EvalResult }> = [];
-    const candidates = frontier
-      .sort((a, b) => b.eval.score - a.eval.score)
-      .slice(0, beamWidth);
+  const advanceMinimizer = (current: ProgramMinimizer) => {
+    if (!current.step() && getElapsedMs() < maxTimeMs) {
+      return;
+    }
+    const minimized = current.getResult();
+    if (minimized.evaluation.solved) {
+      bestProgram = minimized.program;
+      bestEval = minimized.evaluation;
+      bestLevels = extraLevels.length > 0 ? minimized.outcomes : undefined;
+    }
+    minimizer = null;
+    finish();
+  };
+
+  const advance = () => {
+    if (minimizer) {
+      advanceMinimizer(minimizer);
+      return;
+    }
 
-    for (const candidate of candidates) {
-      if (!shouldContinue() || solved) {
-        break;
+    if (!started) {
+      started = true;
+      const initialProgram: SolverProgram = { type: 'sequence', steps: [] };
+      seenPrograms.add(JSON.stringify(initialProgram));
+      const initialNode = evaluateCandidate(initialProgram);
+      if (initialNode) {
+        frontier = [initialNode];
       }
-      const expansions = expandProgram(candidate.program, options);
-      for (const expansion of expansions) {
-        if (expansion.steps.length > maxDepth || !shouldContinue()) {
-          break;
-        }
-        const evaluation = evaluateCandidate(expansion);
-        if (!evaluation) {
-          break;
-        }
-        nextLayer.push({ program: expansion, eval: evaluation });
-        if (solved) {
-          break;
-        }
+      return;
+    }
+
+    if (solved || !shouldContinue()) {
+      if (solvedProgram) {
+        minimizer = createProgramMinimizer(solvedProgram, level, evalOptions, extraLevels);
+        solvedProgram = undefined;
+        return;
       }
+      finish();
+      return;
     }
 
-    if (nextLayer.length === 0) {
-      break;
+    if (!layer) {
+      if (depth >= maxDepth) {
+        finish();
+        return;
+      }
+      layer = {
+        candidates: frontier.sort((a, b) => b.rank - a.rank).slice(0, beamWidth),
+        candidateIndex: 0,
+        expansions: [],
+        expansionIndex: 0,
+        nextLayer: [],
+      };
     }
-    nextLayer.sort((a, b) => b.eval.score - a.eval.score);
-    frontier = nextLayer.slice(0, beamWidth);
-  }
 
-  const elapsedMs = Date.now() - start;
-  onProgress?.({
-    attemptCount: attempts,
-    bestScore: bestEval?.score ?? -Infinity,
-    elapsedMs,
-    bestProgram,
-    bestTrace: bestEval?.traceLite,
-  });
+    if (layer.expansionIndex >= layer.expansions.length) {
+      if (layer.candidateIndex >= layer.candidates.length) {
+        if (layer.nextLayer.length === 0) {
+          finish();
+          return;
+        }
+        frontier = layer.nextLayer.sort((a, b) => b.rank - a.rank).slice(0, beamWidth);
+        layer = null;
+        depth += 1;
+        return;
+      }
+      layer.parent = layer.candidates[layer.candidateIndex];
+      layer.candidateIndex += 1;
+      const expansions = expandProgram(layer.parent.program, options);
+      const { partition } = options;
+      layer.expansions =
+        depth === 0 && partition
+          ? expansions.filter((_, index) => index % partition.count === partition.index)
+          : expansions;
+      layer.expansionIndex = 0;
+      return;
+    }
+
+    const expansion = layer.expansions[layer.expansionIndex];
+    layer.expansionIndex += 1;
+    const key = JSON.stringify(expansion.program);
+    if (countProgramNodes(expansion.program) > maxDepth || seenPrograms.has(key)) {
+      return;
+    }
+    seenPrograms.add(key);
+    const node = evaluateCandidate(
+      expansion.program,
+      expansion.extendsParent ? layer.parent?.snapshot : undefined,
+    );
+    if (node) {
+      layer.nextLayer.push(node);
+    }
+  };
 
   return {
-    solved,
-    state: {
-      bestProgram,
-      bestEval,
-      attempts,
-      startedAt: start,
+    runSlice: (sliceMs) => {
+      const startedAt = Date.now();
+      sliceStart = startedAt;
+      while (!finished && Date.now() - startedAt < sliceMs) {
+        advance();
+      }
+      activeMs += Date.now() - startedAt;
+      sliceStart = null;
+      return finished;
+    },
+    updateBudget: (budget) => {
+      maxAttempts = clampPositive(budget.maxAttempts, maxAttempts);
+      maxTimeMs = clampPositive(budget.maxTimeMs, maxTimeMs);
+      maxDepth = clampPositive(budget.maxDepth, maxDepth);
+      beamWidth = clampPositive(budget.beamWidth, beamWidth);
     },
+    getResult: () => ({
+      solved,
+      state: {
+        bestProgram,
+        bestEval,
+        bestLevels,
+        attempts,
+        startedAt: start,
+        elapsedMs: getElapsedMs(),
+      },
+    }),
   };
 };
+
+export const runSolverSearch = (
+  level: Parameters<typeof evaluateIncremental>[1],
+  options: SolverSearchOptions,
+  evalOptions: EvalOptions | undefined,
+  onProgress?: ProgressCallback,
+): SearchResult => {
+  const search = createSolverSearch(level, options, evalOptions, onProgress);
+  search.runSlice(Infinity);
+  return search.getResult();
+};
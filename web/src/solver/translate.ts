@@ -1,5 +1,10 @@
-import type { ConditionNode, ProgramNode } from '../blocks/types';
-import type { SolverAstNode, SolverConditionNode, SolverProgram } from './types';
+import type { AstNode, ConditionNode, ProgramNode } from '../blocks/types';
+import type {
+  SolverAstNode,
+  SolverConditionNode,
+  SolverProgram,
+  SolverSequencePath,
+} from './types';
 
 interface BlockIdFactory {
   nextId: () => string;
@@ -76,3 +81,91 @@ export const toProgramNode = (
   type: 'sequence',
   steps: program.steps.map((step) => toAstNode(step, ids)),
 });
+
+export interface TranslatedProgram {
+  program: SolverProgram;
+  blockIds: Map<string, string>;
+}
+
+export const toStepKey = (path: SolverSequencePath, index: number): string =>
+  [...path, index].join('.');
+
+const fromConditionNode = (condition: ConditionNode): SolverConditionNode | null => {
+  if (condition.kind === 'compare') {
+    return null;
+  }
+
+  if (condition.kind === 'not') {
+    const operand = fromConditionNode(condition.operand);
+    return operand ? { kind: 'not', operand } : null;
+  }
+
+  if (condition.kind === 'and' || condition.kind === 'or') {
+    const left = fromConditionNode(condition.left);
+    const right = fromConditionNode(condition.right);
+    return left && right ? { kind: condition.kind, left, right } : null;
+  }
+
+  return { kind: 'primitive', condition: condition.condition };
+};
+
+const fromSequence = (
+  sequence: ProgramNode,
+  path: SolverSequencePath,
+  blockIds: Map<string, string>,
+): SolverProgram | null => {
+  const steps: SolverAstNode[] = [];
+  for (let index = 0; index < sequence.steps.length; index += 1) {
+    const step = fromAstNode(sequence.steps[index], [...path, index], blockIds);
+    if (!step) {
+      return null;
+    }
+    blockIds.set(toStepKey(path, index), sequence.steps[index].blockId);
+    steps.push(step);
+  }
+  return { type: 'sequence', steps };
+};
+
+const fromAstNode = (
+  node: AstNode,
+  stepPath: SolverSequencePath,
+  blockIds: Map<string, string>,
+): SolverAstNode | null => {
+  switch (node.type) {
+    case 'action':
+      return { type: 'action', action: node.action };
+    case 'if': {
+      const condition = fromConditionNode(node.condition);
+      const thenBranch = fromSequence(node.thenBranch, [...stepPath, 'then'], blockIds);
+      const elseBranch = node.elseBranch
+        ? fromSequence(node.elseBranch, [...stepPath, 'else'], blockIds)
+        : undefined;
+      if (!condition || !thenBranch || elseBranch === null) {
+        return null;
+      }
+      return elseBranch
+        ? { type: 'if', condition, thenBranch, elseBranch }
+        : { type: 'if', condition, thenBranch };
+    }
+    case 'repeat': {
+      const body = fromSequence(node.body, [...stepPath, 'body'], blockIds);
+      return body ? { type: 'repeat', count: node.count, body } : null;
+    }
+    case 'repeat_until': {
+      const condition = fromConditionNode(node.condition);
+      const body = fromSequence(node.body, [...stepPath, 'body'], blockIds);
+      return condition && body ? { type: 'repeat_until', condition, body } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const fromProgramNode = (program: ProgramNode): TranslatedProgram | null => {
+  if (program.procedures && program.procedures.length > 0) {
+    return null;
+  }
+  const blockIds = new Map<string, string>();
+  const translated = fromSequence(program, [], blockIds);
+  return translated ? { program: translated, blockIds } : null;
+};
@@ -1,4 +1,5 @@
 import type { Direction, RobotAction, RobotState } from '../engine/robot';
+import type { SimulationEvent } from '../engine/sim';
 
 export interface SolverLevelDefinition {
   id?: string;
@@ -13,6 +14,11 @@ export interface SolverLevelDefinition {
     starts?: { x: number; y: number; dir: number | 'N' | 'E' | 'S' | 'W' }[];
   };
   exits?: { x: number; y: number }[];
+  channels?: { x: number; y: number; channel: number }[];
+  teleporters?: { x: number; y: number; id: string }[];
+  items?: { x: number; y: number; item: string }[];
+  crates?: { x: number; y: number }[];
+  skills?: { build?: number; block?: number; dig?: number };
   requiredSaved?: number;
   maxTicks?: number;
   start?: { x: number; y: number; dir: number };
@@ -38,12 +44,45 @@ export interface EventSummary {
   raftUsed: boolean;
   waterTouched: boolean;
   anySaved: boolean;
+  itemsPickedUp: number;
+}
+
+export interface ScoringWeights {
+  saved: number;
+  won: number;
+  anySaved: number;
+  doorOpened: number;
+  pressurePlatePressed: number;
+  raftUsed: number;
+  waterTouched: number;
+  itemPickedUp: number;
+  aliveRobot: number;
+  deadRobot: number;
+  move: number;
+  turn: number;
+  bump: number;
+  wait: number;
+  tick: number;
+  proximity: number;
+  distanceStep: number;
+  programNode: number;
+}
+
+export type ScoringMilestone =
+  | { type: 'visit'; x: number; y: number; weight: number }
+  | { type: 'event'; event: SimulationEvent['type']; weight: number };
+
+export interface ScoringProfile {
+  weights?: Partial<ScoringWeights>;
+  milestones?: ScoringMilestone[];
 }
 
 export interface EvalOptions {
   maxTicks?: number;
   maxVmSteps?: number;
   sampleEvery?: number;
+  detectLoops?: boolean;
+  scoring?: ScoringProfile;
 }
 
 export interface EvalResult {
@@ -54,6 +93,7 @@ export interface EvalResult {
   bestRobots?: RobotState[];
   events: EventSummary;
   traceLite?: TraceLite;
+  stuck?: boolean;
 }
 
 export interface SolverSearchOptions {
@@ -65,33 +105,83 @@ export interface SolverSearchOptions {
   seed?: number;
   actions: RobotAction[];
   conditions?: SolverConditionType[];
+  partition?: { index: number; count: number };
+  extraLevels?: SolverLevelDefinition[];
 }
 
 export interface SolverWorkerStartPayload {
+  generation?: number;
   level: SolverLevelDefinition;
   evalOptions?: EvalOptions;
   search: SolverSearchOptions;
 }
 
+export interface SolverLevelOutcome {
+  id?: string;
+  name?: string;
+  solved: boolean;
+  score: number;
+}
+
 export interface SolverWorkerProgressPayload {
   attemptCount: number;
   bestScore: number;
   elapsedMs: number;
   bestProgram?: SolverProgram;
   bestTrace?: TraceLite;
+  bestLevels?: SolverLevelOutcome[];
 }
 
 export interface SolverWorkerResultPayload extends SolverWorkerProgressPayload {
   solved: boolean;
 }
 
+export interface SolverWorkerBudgetPayload {
+  maxAttempts?: number;
+  maxTimeMs?: number;
+  maxDepth?: number;
+  beamWidth?: number;
+}
+
+export type SolverSequencePath = Array<number | 'body' | 'then' | 'else'>;
+
+export type SolverRepairEdit =
+  | { type: 'insert'; path: SolverSequencePath; index: number; action: RobotAction }
+  | { type: 'delete'; path: SolverSequencePath; index: number }
+  | { type: 'replace'; path: SolverSequencePath; index: number; action: RobotAction }
+  | { type: 'set_count'; path: SolverSequencePath; index: number; count: number };
+
+export interface SolverWorkerRepairPayload {
+  requestId?: number;
+  level: SolverLevelDefinition;
+  evalOptions?: EvalOptions;
+  program: SolverProgram;
+  actions: RobotAction[];
+  maxAttempts?: number;
+  maxTimeMs?: number;
+}
+
+export interface SolverRepairResult {
+  edit: SolverRepairEdit | null;
+  program?: SolverProgram;
+  solved: boolean;
+  score: number;
+  baselineScore: number;
+  attemptCount: number;
+}
+
 export type SolverWorkerMessage =
   | { type: 'start'; payload: SolverWorkerStartPayload }
-  | { type: 'cancel' };
+  | { type: 'cancel' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'budget'; payload: SolverWorkerBudgetPayload }
+  | { type: 'repair'; payload: SolverWorkerRepairPayload };
 
 export type SolverWorkerResponse =
-  | { type: 'progress'; payload: SolverWorkerProgressPayload }
-  | { type: 'result'; payload: SolverWorkerResultPayload };
+  | { type: 'progress'; payload: SolverWorkerProgressPayload; generation?: number }
+  | { type: 'result'; payload: SolverWorkerResultPayload; generation?: number }
+  | { type: 'repair'; payload: SolverRepairResult; requestId?: number };
 
 export type SolverConditionType =
   | 'AHEAD_CLEAR'
@@ -99,7 +189,13 @@ export type SolverConditionType =
   | 'RIGHT_CLEAR'
   | 'ON_GOAL'
   | 'ON_PRESSURE_PLATE'
-  | 'ON_RAFT';
+  | 'ON_RAFT'
+  | 'SIGNAL_RAISED'
+  | 'ROBOT_AHEAD'
+  | 'WALL_AHEAD'
+  | 'HAZARD_AHEAD'
+  | 'DOOR_AHEAD'
+  | 'HOLDING_KEY';
 
 export type SolverConditionNode =
   | { kind: 'primitive'; condition: SolverConditionType }
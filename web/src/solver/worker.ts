@@ -2,49 +2,105 @@ import type {
   SolverWorkerMessage,
   SolverWorkerResponse,
 } from './types';
-import { runSolverSearch } from './search';
+import { findRepair } from './repair';
+import { createSolverSearch, type SolverSearch } from './search';
 
-let cancelled = false;
+const SLICE_MS = 30;
+
+let search: SolverSearch | null = null;
+let generation: number | undefined;
+let paused = false;
+let sliceTimer: ReturnType<typeof setTimeout> | null = null;
 
 const postResponse = (response: SolverWorkerResponse) => {
   self.postMessage(response);
 };
 
-self.addEventListener('message', (event: MessageEvent<SolverWorkerMessage>) => {
-  const message = event.data;
-  if (message.type === 'cancel') {
-    cancelled = true;
-    return;
+const stopSlices = () => {
+  if (sliceTimer !== null) {
+    clearTimeout(sliceTimer);
+    sliceTimer = null;
   }
+};
 
-  if (message.type !== 'start') {
+const runSlice = () => {
+  sliceTimer = null;
+  const current = search;
+  if (!current || paused) {
     return;
   }
 
-  cancelled = false;
-  const { level, evalOptions, search } = message.payload;
-
-  const result = runSolverSearch(level, search, evalOptions, (payload) => {
-    if (cancelled) {
-      return;
-    }
-    postResponse({ type: 'progress', payload });
-  });
-
-  if (cancelled) {
+  if (!current.runSlice(SLICE_MS)) {
+    scheduleSlice();
     return;
   }
 
-  const bestScore = result.state.bestEval?.score ?? -Infinity;
+  search = null;
+  const result = current.getResult();
   postResponse({
     type: 'result',
+    generation,
     payload: {
       attemptCount: result.state.attempts,
-      bestScore,
-      elapsedMs: Date.now() - result.state.startedAt,
+      bestScore: result.state.bestEval?.score ?? -Infinity,
+      elapsedMs: result.state.elapsedMs,
       bestProgram: result.state.bestProgram,
       bestTrace: result.state.bestEval?.traceLite,
+      bestLevels: result.state.bestLevels,
       solved: result.solved,
     },
   });
+};
+
+const scheduleSlice = () => {
+  if (sliceTimer === null && search && !paused) {
+    sliceTimer = setTimeout(runSlice, 0);
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<SolverWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'cancel':
+      stopSlices();
+      search = null;
+      return;
+    case 'pause':
+      paused = true;
+      stopSlices();
+      return;
+    case 'resume':
+      paused = false;
+      scheduleSlice();
+      return;
+    case 'budget':
+      search?.updateBudget(message.payload);
+      return;
+    case 'repair': {
+      const { program, level, evalOptions, actions, maxAttempts, maxTimeMs } = message.payload;
+      postResponse({
+        type: 'repair',
+        requestId: message.payload.requestId,
+        payload: findRepair(program, level, { actions, maxAttempts, maxTimeMs }, evalOptions),
+      });
+      return;
+    }
+    case 'start': {
+      stopSlices();
+      paused = false;
+      const { level, evalOptions, search: searchOptions } = message.payload;
+      const runGeneration = message.payload.generation;
+      const current = createSolverSearch(level, searchOptions, evalOptions, (payload) => {
+        if (search === current) {
+          postResponse({ type: 'progress', generation: runGeneration, payload });
+        }
+      });
+      search = current;
+      generation = runGeneration;
+      scheduleSlice();
+      return;
+    }
+    default:
+      return;
+  }
 });
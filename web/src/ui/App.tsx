@@ -10,25 +10,41 @@ import {
 } from 'react';
 import * as Blockly from 'blockly';
 import { registerBlocks, toolboxDefinition } from '../blocks/blocklySetup';
-import { compileWorkspace } from '../blocks/compile';
-import { createVm, stepVm, type VmState } from '../blocks/vm';
+import { compileWorkspace, hasCompileErrors, type CompileDiagnostic } from '../blocks/compile';
+import { createVm, fingerprintVm, stepVm, type VmState } from '../blocks/vm';
 import type { ProgramNode } from '../blocks/types';
 import type { Direction, RobotAction } from '../engine/robot';
 import {
   createSimulation,
+  fingerprintSimulation,
+  getTileChannel,
   isDoorOpen,
   isPressurePlatePressed,
+  listOpenDoors,
+  listUnlockedDoors,
   stepSimulation,
   type SimulationState,
+  type CrateState,
+  type SimulationEvent,
   type Spawner,
+  type TeleporterPad,
+  type TileItem,
 } from '../engine/sim';
+import { explainFailure, type FailureExplanation } from '../engine/failure';
 import { TileType, createWorld, getTile } from '../engine/world';
 import { CanvasRenderer } from '../render/CanvasRenderer';
 import { loadRenderAssets } from '../render/assets';
 import type { RenderAssets } from '../render/Renderer';
+import { createSolverPool, getSolverPoolSize, type SolverPool } from '../solver/pool';
+import { fromProgramNode, toStepKey } from '../solver/translate';
 import type {
+  EvalOptions,
   SolverConditionNode,
+  SolverLevelDefinition,
+  SolverLevelOutcome,
   SolverProgram,
+  SolverRepairEdit,
+  SolverSequencePath,
   SolverWorkerStartPayload,
   SolverWorkerResponse,
   TraceLite,
@@ -62,6 +78,10 @@ const actionLabels: Record<RobotAction, string> = {
   TURN_LEFT: 'Turn Left',
   TURN_RIGHT: 'Turn Right',
   WAIT: 'Wait',
+  SIGNAL: 'Raise Signal',
+  BUILD_BRIDGE: 'Build Bridge',
+  BLOCK: 'Become Blocker',
+  DIG: 'Dig',
 };
 const directionLabels: Record<Direction, string> = {
   0: 'North',
@@ -79,6 +99,14 @@ const tileKeyByType: Record<TileType, string> = {
   [TileType.Water]: 'floor',
   [TileType.Raft]: 'floor',
   [TileType.Jetty]: 'floor',
+  [TileType.BreakableWall]: 'wall',
+  [TileType.ConveyorNorth]: 'floor',
+  [TileType.ConveyorEast]: 'floor',
+  [TileType.ConveyorSouth]: 'floor',
+  [TileType.ConveyorWest]: 'floor',
+  [TileType.Teleporter]: 'floor',
+  [TileType.Key]: 'floor',
+  [TileType.LockedDoor]: 'floor',
 };
 const tileInfoByType: Record<TileType, { title: string; description: string }> = {
   [TileType.Goal]: {
@@ -101,13 +129,45 @@ const tileInfoByType: Record<TileType, { title: string; description: string }> =
     title: 'Jetty',
     description: 'A dock where rafts can stop and return to when idle.',
   },
+  [TileType.BreakableWall]: {
+    title: 'Cracked Wall',
+    description: 'Blocks the path until a robot with the dig skill digs through it.',
+  },
+  [TileType.ConveyorNorth]: {
+    title: 'Conveyor (North)',
+    description: 'Carries any robot standing on it one tile north at the end of each tick.',
+  },
+  [TileType.ConveyorEast]: {
+    title: 'Conveyor (East)',
+    description: 'Carries any robot standing on it one tile east at the end of each tick.',
+  },
+  [TileType.ConveyorSouth]: {
+    title: 'Conveyor (South)',
+    description: 'Carries any robot standing on it one tile south at the end of each tick.',
+  },
+  [TileType.ConveyorWest]: {
+    title: 'Conveyor (West)',
+    description: 'Carries any robot standing on it one tile west at the end of each tick.',
+  },
+  [TileType.Teleporter]: {
+    title: 'Teleporter',
+    description: 'Robots stepping onto this pad appear on its partner pad if it is free.',
+  },
+  [TileType.Key]: {
+    title: 'Key',
+    description: 'The first robot to step here picks up the key and carries it.',
+  },
+  [TileType.LockedDoor]: {
+    title: 'Locked Door',
+    description: 'Only a robot carrying the matching key can pass through.',
+  },
   [TileType.PressurePlate]: {
     title: 'Pressure Plate',
-    description: 'Activates connected doors while a robot is standing on it.',
+    description: 'Opens doors on the same channel while every plate on that channel is pressed.',
   },
   [TileType.Door]: {
     title: 'Door',
-    description: 'Blocks the path unless powered by an active pressure plate.',
+    description: 'Blocks the path unless the pressure plates on its channel are all pressed.',
   },
   [TileType.Empty]: {
     title: 'Floor',
@@ -128,6 +188,13 @@ const designerTileOptions: Array<{ type: TileType; label: string; description: s
   { type: TileType.Water, label: 'Water', description: 'Bots sink in water.' },
   { type: TileType.Raft, label: 'Raft', description: 'Floating transport across water.' },
   { type: TileType.Jetty, label: 'Jetty', description: 'Dock for rafts to stop.' },
+  { type: TileType.BreakableWall, label: 'Cracked', description: 'Wall that bots can dig.' },
+  { type: TileType.ConveyorNorth, label: 'Belt ↑', description: 'Carries bots north.' },
+  { type: TileType.ConveyorEast, label: 'Belt →', description: 'Carries bots east.' },
+  { type: TileType.ConveyorSouth, label: 'Belt ↓', description: 'Carries bots south.' },
+  { type: TileType.ConveyorWest, label: 'Belt ←', description: 'Carries bots west.' },
+  { type: TileType.Key, label: 'Key', description: 'Picked up by the first bot.' },
+  { type: TileType.LockedDoor, label: 'Lock', description: 'Opens for bots with the key.' },
 ];
 const designerTileLabelByType: Record<TileType, string> = {
   [TileType.Empty]: 'Floor',
@@ -139,6 +206,14 @@ const designerTileLabelByType: Record<TileType, string> = {
   [TileType.Water]: 'Water',
   [TileType.Raft]: 'Raft',
   [TileType.Jetty]: 'Jetty',
+  [TileType.BreakableWall]: 'Cracked',
+  [TileType.ConveyorNorth]: 'Belt ↑',
+  [TileType.ConveyorEast]: 'Belt →',
+  [TileType.ConveyorSouth]: 'Belt ↓',
+  [TileType.ConveyorWest]: 'Belt ←',
+  [TileType.Teleporter]: 'Pad',
+  [TileType.Key]: 'Key',
+  [TileType.LockedDoor]: 'Lock',
 };
 const thumbnailTileSize = 12;
 const thumbnailDoorFill = '#1e293b';
@@ -155,6 +230,10 @@ const solverActionBlockTypes: Record<RobotAction, string> = {
   TURN_LEFT: 'lembot_turn_left',
   TURN_RIGHT: 'lembot_turn_right',
   WAIT: 'lembot_wait',
+  SIGNAL: 'lembot_signal',
+  BUILD_BRIDGE: 'lembot_build_bridge',
+  BLOCK: 'lembot_block',
+  DIG: 'lembot_dig',
 };
 const solverConditionBlockTypes: Record<SolverPrimitiveCondition, string> = {
   AHEAD_CLEAR: 'lembot_ahead_clear',
@@ -163,6 +242,12 @@ const solverConditionBlockTypes: Record<SolverPrimitiveCondition, string> = {
   ON_GOAL: 'lembot_on_goal',
   ON_PRESSURE_PLATE: 'lembot_on_pressure_plate',
   ON_RAFT: 'lembot_on_raft',
+  SIGNAL_RAISED: 'lembot_signal_raised',
+  ROBOT_AHEAD: 'lembot_robot_ahead',
+  WALL_AHEAD: 'lembot_wall_ahead',
+  HAZARD_AHEAD: 'lembot_hazard_ahead',
+  DOOR_AHEAD: 'lembot_door_ahead',
+  HOLDING_KEY: 'lembot_holding_key',
 };
 
 const parseDirection = (direction: number | 'N' | 'E' | 'S' | 'W'): Direction => {
@@ -242,6 +327,64 @@ const listDesignerPositions = (grid: number[][], tileType: TileType): Array<{ x:
   return positions;
 };
 
+const nextDesignerTeleporterId = (pads: TeleporterPad[]): string => {
+  const counts = new Map<string, number>();
+  pads.forEach((pad) => counts.set(pad.id, (counts.get(pad.id) ?? 0) + 1));
+  const openPair = [...counts.entries()].find(([, count]) => count === 1);
+  if (openPair) {
+    return openPair[0];
+  }
+  let index = 0;
+  while (counts.has(String.fromCharCode(65 + index))) {
+    index += 1;
+  }
+  return String.fromCharCode(65 + index);
+};
+
+const filterTraceEvents = (
+  events: SimulationEvent[],
+  robotId: string | null,
+): SimulationEvent[] =>
+  events.filter((event) => !('robotId' in event) || !robotId || event.robotId === robotId);
+
+const formatTraceEvent = (event: SimulationEvent): string => {
+  const prefix = `T${event.tick}`;
+  switch (event.type) {
+    case 'moved':
+      return `${prefix} ${event.robotId} moved to (${event.x}, ${event.y})`;
+    case 'turned':
+      return `${prefix} ${event.robotId} turned`;
+    case 'waited':
+      return `${prefix} ${event.robotId} waited`;
+    case 'bumped_wall':
+      return `${prefix} ${event.robotId} bumped into a wall`;
+    case 'blocked_by_robot':
+      return `${prefix} ${event.robotId} was blocked by a robot`;
+    case 'died_on_hazard':
+      return `${prefix} ${event.robotId} hit a hazard at (${event.x}, ${event.y})`;
+    case 'drowned':
+      return `${prefix} ${event.robotId} drowned at (${event.x}, ${event.y})`;
+    case 'saved':
+      return `${prefix} ${event.robotId} was saved`;
+    case 'spawned':
+      return `${prefix} ${event.robotId} spawned at (${event.x}, ${event.y})`;
+    case 'picked_up':
+      return `${prefix} ${event.robotId} picked up the ${event.item}`;
+    case 'spawn_delayed':
+      return `${prefix} Spawn delayed, the spawner is blocked`;
+    case 'door_opened':
+      return `${prefix} Doors on channel ${event.channel} opened`;
+    case 'door_closed':
+      return `${prefix} Doors on channel ${event.channel} closed`;
+    case 'raft_departed':
+      return `${prefix} Raft left (${event.x}, ${event.y})`;
+    case 'raft_docked':
+      return `${prefix} Raft docked at (${event.x}, ${event.y})`;
+    default:
+      return prefix;
+  }
+};
+
 const createXmlElement = (name: string): Element =>
   Blockly.utils.xml.createElement(name);
 
@@ -389,6 +532,106 @@ const solverBudgetOptions: SolverBudgetOption[] = [
   },
 ];
 
+interface SolverScopeOption {
+  id: 'level' | 'set';
+  label: string;
+  description: string;
+  levelCount: number;
+}
+
+const solverScopeOptions: SolverScopeOption[] = [
+  {
+    id: 'level',
+    label: 'This level',
+    description: 'Find a program for the level you are playing.',
+    levelCount: 1,
+  },
+  {
+    id: 'set',
+    label: 'This level and the next two',
+    description: 'Find one program that solves all three levels.',
+    levelCount: 3,
+  },
+];
+
+const solverActions: RobotAction[] = ['MOVE_FORWARD', 'TURN_LEFT', 'TURN_RIGHT', 'WAIT'];
+
+const toSolverLevel = (level: LevelDefinition): SolverLevelDefinition => ({
+  id: level.id,
+  name: level.name,
+  grid: level.grid,
+  spawner: level.spawner,
+  exits: level.exits,
+  channels: level.channels,
+  teleporters: level.teleporters,
+  items: level.items,
+  crates: level.crates,
+  skills: level.skills,
+  requiredSaved: level.requiredSaved,
+  maxTicks: level.maxTicks,
+  start: level.start,
+  goal: level.goal,
+});
+
+const getSolverEvalOptions = (level: LevelDefinition): EvalOptions => ({
+  maxTicks: level.maxTicks ?? 200,
+  maxVmSteps: level.maxTicks ?? 200,
+  sampleEvery: 4,
+});
+
+interface SolverHint {
+  blockId: string | null;
+  message: string;
+}
+
+const describeRepairEdit = (
+  edit: SolverRepairEdit,
+  blockIds: Map<string, string>,
+): SolverHint => {
+  const blockAt = (path: SolverSequencePath, index: number) =>
+    blockIds.get(toStepKey(path, index)) ?? null;
+  switch (edit.type) {
+    case 'delete':
+      return { blockId: blockAt(edit.path, edit.index), message: 'Try removing this block.' };
+    case 'replace':
+      return {
+        blockId: blockAt(edit.path, edit.index),
+        message: `Try changing this block to "${actionLabels[edit.action]}".`,
+      };
+    case 'set_count':
+      return {
+        blockId: blockAt(edit.path, edit.index),
+        message: `Try repeating ${edit.count} ${edit.count === 1 ? 'time' : 'times'} here.`,
+      };
+    case 'insert': {
+      const label = actionLabels[edit.action];
+      if (edit.index > 0) {
+        return {
+          blockId: blockAt(edit.path, edit.index - 1),
+          message: `Try adding "${label}" right after this block.`,
+        };
+      }
+      if (edit.path.length > 0) {
+        return {
+          blockId: blockIds.get(edit.path.slice(0, -1).join('.')) ?? null,
+          message: `Try adding "${label}" at the start of this block.`,
+        };
+      }
+      const firstBlockId = blockAt([], 0);
+      return {
+        blockId: firstBlockId,
+        message: firstBlockId
+          ? `Try adding "${label}" before this block.`
+          : `Try starting with a "${label}" block.`,
+      };
+    }
+    default: {
+      const _exhaustive: never = edit;
+      return _exhaustive;
+    }
+  }
+};
+
 const drawThumbnailPlate = (
   ctx: CanvasRenderingContext2D,
   col: number,
@@ -508,6 +751,11 @@ interface LevelDefinition {
     starts?: { x: number; y: number; dir: number | 'N' | 'E' | 'S' | 'W' }[];
   };
   exits?: { x: number; y: number }[];
+  channels?: { x: number; y: number; channel: number }[];
+  teleporters?: TeleporterPad[];
+  items?: TileItem[];
+  crates?: CrateState[];
+  skills?: { build?: number; block?: number; dig?: number };
   requiredSaved?: number;
   maxTicks?: number;
   start?: { x: number; y: number; dir: number };
@@ -577,7 +825,11 @@ const App = () => {
   const workspaceRef = useRef<Blockly.WorkspaceSvg | null>(null);
   const rendererRef = useRef<CanvasRenderer | null>(null);
   const traceLogRef = useRef<HTMLDivElement | null>(null);
-  const solverWorkerRef = useRef<Worker | null>(null);
+  const solverWorkerRef = useRef<SolverPool | null>(null);
+  const hintBlockIdsRef = useRef<Map<string, string>>(new Map());
+  const compiledProgramKeyRef = useRef('');
+  const highlightedBlockIdRef = useRef<string | null>(null);
+  const repairRequestIdRef = useRef(0);
   const ghostRobotsRef = useRef<TraceLiteFrame[] | null>(null);
 
   const createSimulationForLevel = useCallback((level: LevelDefinition): SimulationState => {
@@ -604,6 +856,11 @@ const App = () => {
       world,
       spawner,
       exits,
+      channels: level.channels,
+      teleporters: level.teleporters,
+      items: level.items,
+      crates: level.crates,
+      skills: level.skills,
       maxSteps: level.maxTicks ?? 200,
       requiredSaved: level.requiredSaved ?? 1,
     });
@@ -699,7 +956,7 @@ const App = () => {
   const [isReplaying, setIsReplaying] = useState(false);
   const [replayIndex, setReplayIndex] = useState(0);
   const [lastRunActions, setLastRunActions] = useState<Array<Array<RobotAction | undefined>>>([]);
-  const [actionTrace, setActionTrace] = useState<RobotAction[]>([]);
+  const [traceEvents, setTraceEvents] = useState<SimulationEvent[]>([]);
   const [currentAction, setCurrentAction] = useState<RobotAction | null>(null);
   const [speedMs, setSpeedMs] = useState(defaultSpeedMs);
   const [completedLevels, setCompletedLevels] = useState<string[]>(() => loadCompletedLevels());
@@ -707,8 +964,11 @@ const App = () => {
   const [renderAssets, setRenderAssets] = useState<RenderAssets | null>(null);
   const [levelThumbnails, setLevelThumbnails] = useState<Record<string, string>>({});
   const [failReason, setFailReason] = useState<
-    'hazard' | 'step_limit' | 'quota' | 'unknown' | null
+    'hazard' | 'step_limit' | 'recursion' | 'no_progress' | 'loop' | 'quota' | 'unknown' | null
   >(null);
+  const [stalledBlockId, setStalledBlockId] = useState<string | null>(null);
+  const [compileDiagnostics, setCompileDiagnostics] = useState<CompileDiagnostic[]>([]);
+  const [failureDetails, setFailureDetails] = useState<FailureExplanation[]>([]);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [isLevelsOpen, setIsLevelsOpen] = useState(false);
   const [isDesignerOpen, setIsDesignerOpen] = useState(false);
@@ -731,14 +991,15 @@ const App = () => {
     { x: 1, y: 1, dir: 'E' },
   ]);
   const [designerSpawnRotations, setDesignerSpawnRotations] = useState<number[]>([0]);
-  const [designerTool, setDesignerTool] = useState<'tiles' | 'bots'>('tiles');
+  const [designerTool, setDesignerTool] = useState<'tiles' | 'bots' | 'pads'>('tiles');
+  const [designerTeleporters, setDesignerTeleporters] = useState<TeleporterPad[]>([]);
   const [designerCellSize, setDesignerCellSize] = useState(0);
   const [designerSourceLevelId, setDesignerSourceLevelId] = useState('');
   const [designerCopyStatus, setDesignerCopyStatus] = useState<'idle' | 'copied' | 'error'>(
     'idle',
   );
   const [solverStatus, setSolverStatus] = useState<
-    'idle' | 'running' | 'solved' | 'unsolved'
+    'idle' | 'running' | 'paused' | 'solved' | 'unsolved'
   >('idle');
   const [solverAttempts, setSolverAttempts] = useState(0);
   const [solverElapsedMs, setSolverElapsedMs] = useState(0);
@@ -746,6 +1007,11 @@ const App = () => {
   const [solverBestProgram, setSolverBestProgram] = useState<SolverProgram | null>(null);
   const [solverBestTrace, setSolverBestTrace] = useState<TraceLite | null>(null);
   const [solverBudgetId, setSolverBudgetId] = useState<SolverBudgetOption['id']>('quick');
+  const [solverScopeId, setSolverScopeId] = useState<SolverScopeOption['id']>('level');
+  const [solverBestLevels, setSolverBestLevels] = useState<SolverLevelOutcome[]>([]);
+  const isSolverActive = solverStatus === 'running' || solverStatus === 'paused';
+  const [solverHint, setSolverHint] = useState<SolverHint | null>(null);
+  const [isHintPending, setIsHintPending] = useState(false);
   const [solverPreviewFrame, setSolverPreviewFrame] = useState(0);
 
   const completedLevelSet = useMemo(() => new Set(completedLevels), [completedLevels]);
@@ -771,6 +1037,10 @@ const App = () => {
     () => solverBudgetOptions.find((option) => option.id === solverBudgetId) ?? solverBudgetOptions[0],
     [solverBudgetId],
   );
+  const solverScope = useMemo(
+    () => solverScopeOptions.find((option) => option.id === solverScopeId) ?? solverScopeOptions[0],
+    [solverScopeId],
+  );
 
   const handleDesignerLoadFromLevel = useCallback(() => {
     if (!designerSourceLevelId) {
@@ -830,6 +1100,7 @@ const App = () => {
     setDesignerRequiredSaved(requiredSaved);
     setDesignerSpawnStarts(normalizedStarts);
     setDesignerSpawnRotations(normalizedStarts.map(() => 0));
+    setDesignerTeleporters(sourceLevel.teleporters ?? []);
     setDesignerCopyStatus('idle');
   }, [designerSourceLevelId]);
 
@@ -898,6 +1169,30 @@ const App = () => {
         return;
       }
 
+      if (designerTool === 'pads') {
+        const hasPad =
+          designerGrid[row]?.[col] === TileType.Teleporter &&
+          designerTeleporters.some((pad) => pad.x === col && pad.y === row);
+        const remainingPads = designerTeleporters.filter(
+          (pad) => (pad.x !== col || pad.y !== row) && designerGrid[pad.y]?.[pad.x] === TileType.Teleporter,
+        );
+        setDesignerTeleporters(
+          hasPad
+            ? remainingPads
+            : [...remainingPads, { x: col, y: row, id: nextDesignerTeleporterId(remainingPads) }],
+        );
+        setDesignerGrid((prev) =>
+          prev.map((gridRow, rowIndex) =>
+            rowIndex === row
+              ? gridRow.map((cell, colIndex) =>
+                  colIndex === col ? (hasPad ? TileType.Empty : TileType.Teleporter) : cell,
+                )
+              : gridRow,
+          ),
+        );
+        return;
+      }
+
       setDesignerGrid((prev) =>
         prev.map((gridRow, rowIndex) =>
           rowIndex === row
@@ -912,9 +1207,11 @@ const App = () => {
       );
     },
     [
+      designerGrid,
       designerSpawnRotations,
       designerSpawnStarts.length,
       designerSpawnStartsByPosition,
+      designerTeleporters,
       designerTile,
       designerTool,
       updateDesignerSpawnStart,
@@ -923,8 +1220,10 @@ const App = () => {
 
   const simulationRef = useRef(simulation);
   const vmStatesRef = useRef<Map<string, VmState>>(new Map());
-  const traceRef = useRef<RobotAction[]>([]);
+  const traceRef = useRef<SimulationEvent[]>([]);
   const runActionsRef = useRef<Array<Array<RobotAction | undefined>>>([]);
+  const runEventsRef = useRef<SimulationEvent[]>([]);
+  const seenStatesRef = useRef<Map<string, number>>(new Map());
   const replayIndexRef = useRef(0);
   const lastRunRef = useRef<Array<Array<RobotAction | undefined>>>([]);
   const currentActionRef = useRef<RobotAction | null>(null);
@@ -951,9 +1250,11 @@ const App = () => {
       setVmState(null);
       setReplayIndex(0);
       setLastRunActions([]);
-      setActionTrace([]);
+      setTraceEvents([]);
       setCurrentAction(null);
       setFailReason(null);
+      setFailureDetails([]);
+      setStalledBlockId(null);
       setRobotBubbleId(null);
       setTileBubble(null);
       setBubbleShift(0);
@@ -963,6 +1264,8 @@ const App = () => {
       vmStatesRef.current = new Map();
       traceRef.current = [];
       runActionsRef.current = [];
+      runEventsRef.current = [];
+      seenStatesRef.current = new Map();
       replayIndexRef.current = 0;
     },
     [createSimulationForLevel],
@@ -1028,8 +1331,8 @@ const App = () => {
   }, [selectedRobotId, simulation.robots]);
 
   useEffect(() => {
-    traceRef.current = actionTrace;
-  }, [actionTrace]);
+    traceRef.current = traceEvents;
+  }, [traceEvents]);
 
   useEffect(() => {
     replayIndexRef.current = replayIndex;
@@ -1083,7 +1386,9 @@ const App = () => {
     if (!workspace) {
       return null;
     }
-    return compileWorkspace(workspace);
+    const { program, diagnostics } = compileWorkspace(workspace);
+    setCompileDiagnostics(diagnostics);
+    return hasCompileErrors(diagnostics) ? null : program;
   };
 
   const performStep = () => {
@@ -1110,10 +1415,13 @@ const App = () => {
     const actions: Array<RobotAction | undefined> = [];
     const actionsByRobot = new Map<string, RobotAction>();
     let sawStepLimit = false;
-    const doorOpen = isDoorOpen(
+    let sawRecursionLimit = false;
+    let noProgressBlockId: string | null = null;
+    const openDoors = listOpenDoors(
       currentSimulation.world,
       currentSimulation.robots,
-      currentSimulation.doorUnlocked,
+      currentSimulation.channels,
+      currentSimulation.openChannels,
     );
     const occupiedPositions = new Set<string>();
     currentSimulation.robots.forEach((robot) => {
@@ -1129,7 +1437,12 @@ const App = () => {
         vmStates.set(robot.id, robotVm);
       }
 
-      if (!robot.alive || robot.reachedGoal || robotVm.status !== 'running') {
+      if (
+        !robot.alive ||
+        robot.reachedGoal ||
+        robot.isBlocker ||
+        robotVm.status !== 'running'
+      ) {
         actions.push(undefined);
         return;
       }
@@ -1138,8 +1451,14 @@ const App = () => {
         world: currentSimulation.world,
         robot,
         exits: currentSimulation.exits,
-        doorOpen,
+        openDoors: listUnlockedDoors(
+          currentSimulation.world,
+          currentSimulation.items,
+          robot,
+          openDoors,
+        ),
         occupiedPositions,
+        signalRaised: currentSimulation.signalRaised,
       });
       vmStates.set(robot.id, vmResult.state);
       if (vmResult.action) {
@@ -1151,6 +1470,10 @@ const App = () => {
 
       if (vmResult.state.status === 'step_limit') {
         sawStepLimit = true;
+      } else if (vmResult.state.status === 'recursion_limit') {
+        sawRecursionLimit = true;
+      } else if (vmResult.state.status === 'no_progress') {
+        noProgressBlockId = vmResult.state.stalledBlockId ?? null;
       }
     });
 
@@ -1166,22 +1489,47 @@ const App = () => {
     ) {
       nextSimulation = stepSimulation(currentSimulation, actions);
       runActionsRef.current = [...runActionsRef.current, actions];
+      runEventsRef.current = [...runEventsRef.current, ...nextSimulation.events];
     }
 
-    if (sawStepLimit && nextSimulation.status === 'running') {
+    if (
+      (sawStepLimit || sawRecursionLimit || noProgressBlockId !== null) &&
+      nextSimulation.status === 'running'
+    ) {
       nextSimulation = { ...nextSimulation, status: 'lost' };
     }
 
-    let updatedTrace = traceRef.current;
+    let loopStartTick: number | undefined;
+    if (nextSimulation.status === 'running') {
+      const fingerprint = fingerprintSimulation(
+        nextSimulation,
+        nextSimulation.robots.map((robot) => {
+          const robotVm = vmStates.get(robot.id);
+          return robotVm ? fingerprintVm(robotVm) : '-';
+        }),
+      );
+      loopStartTick = seenStatesRef.current.get(fingerprint);
+      if (loopStartTick !== undefined) {
+        nextSimulation = { ...nextSimulation, status: 'lost' };
+      } else {
+        seenStatesRef.current.set(fingerprint, nextSimulation.stepCount);
+      }
+    }
+
     const selectedAction =
       (selectedId ? actionsByRobot.get(selectedId) : undefined) ??
       actionsByRobot.get(currentSimulation.robots[0]?.id ?? '');
     if (selectedAction) {
-      updatedTrace = [...traceRef.current, selectedAction];
-      traceRef.current = updatedTrace;
-      setActionTrace(updatedTrace);
       setCurrentAction(selectedAction);
     }
+    if (nextSimulation !== currentSimulation) {
+      const updatedTrace = [
+        ...traceRef.current,
+        ...filterTraceEvents(nextSimulation.events, selectedId),
+      ];
+      traceRef.current = updatedTrace;
+      setTraceEvents(updatedTrace);
+    }
 
     setSimulation(nextSimulation);
 
@@ -1197,17 +1545,40 @@ const App = () => {
       );
       const fellShortOnQuota =
         savedCount < nextSimulation.requiredSaved && !hasActiveRobot && remainingCount === 0;
-      if (reachedLimit) {
+      if (sawRecursionLimit) {
+        setFailReason('recursion');
+      } else if (noProgressBlockId !== null) {
+        setFailReason('no_progress');
+        setStalledBlockId(noProgressBlockId);
+      } else if (loopStartTick !== undefined) {
+        setFailReason('loop');
+      } else if (reachedLimit) {
         setFailReason('step_limit');
       } else if (fellShortOnQuota) {
         setFailReason('quota');
-      } else if (nextSimulation.robots.some((robot) => !robot.alive)) {
+      } else if (
+        runEventsRef.current.some(
+          (event) => event.type === 'died_on_hazard' || event.type === 'drowned',
+        )
+      ) {
         setFailReason('hazard');
       } else {
         setFailReason('unknown');
       }
+      setFailureDetails(
+        explainFailure(
+          nextSimulation,
+          runEventsRef.current,
+          Array.from(vmStates.entries())
+            .filter(([, state]) => state.status === 'done')
+            .map(([robotId]) => robotId),
+          loopStartTick,
+        ),
+      );
     } else if (nextSimulation.status === 'won') {
       setFailReason(null);
+      setFailureDetails([]);
+      setStalledBlockId(null);
     }
 
     if (
@@ -1223,7 +1594,7 @@ const App = () => {
   };
 
   const handleRun = () => {
-    if (simulation.status !== 'running') {
+    if (simulation.status !== 'running' || hasBlockingDiagnostics) {
       return;
     }
     if (!isRunning && !isReplaying) {
@@ -1234,8 +1605,10 @@ const App = () => {
       if (allStopped) {
         vmStatesRef.current = new Map();
         runActionsRef.current = [];
+        runEventsRef.current = [];
+        seenStatesRef.current = new Map();
         traceRef.current = [];
-        setActionTrace([]);
+        setTraceEvents([]);
         setCurrentAction(null);
         setVmState(null);
       }
@@ -1263,12 +1636,16 @@ const App = () => {
     setIsReplaying(false);
     setSimulation(createSimulationForLevel(levels[levelIndex]));
     setVmState(null);
-    setActionTrace([]);
+    setTraceEvents([]);
     setCurrentAction(null);
     setFailReason(null);
+    setFailureDetails([]);
+    setStalledBlockId(null);
     vmStatesRef.current = new Map();
     traceRef.current = [];
     runActionsRef.current = [];
+    runEventsRef.current = [];
+    seenStatesRef.current = new Map();
   };
 
   const handleReplay = () => {
@@ -1281,13 +1658,39 @@ const App = () => {
     setVmState(null);
     setReplayIndex(0);
     replayIndexRef.current = 0;
-    setActionTrace([]);
+    setTraceEvents([]);
     setCurrentAction(null);
     setFailReason(null);
+    setFailureDetails([]);
+    setStalledBlockId(null);
     vmStatesRef.current = new Map();
     traceRef.current = [];
   };
 
+  const handleReplayToTick = (tick: number, robotId?: string) => {
+    const actionSets = lastRunRef.current.slice(0, tick);
+    const focusId = robotId ?? selectedRobotId;
+    let replaySimulation = createSimulationForLevel(levels[levelIndex]);
+    let replayTrace: SimulationEvent[] = [];
+    actionSets.forEach((actionSet) => {
+      replaySimulation = stepSimulation(replaySimulation, actionSet);
+      replayTrace = [...replayTrace, ...filterTraceEvents(replaySimulation.events, focusId)];
+    });
+    setIsRunning(false);
+    setIsReplaying(false);
+    setSimulation(replaySimulation);
+    setVmState(null);
+    setReplayIndex(actionSets.length);
+    replayIndexRef.current = actionSets.length;
+    setTraceEvents(replayTrace);
+    setCurrentAction(null);
+    if (robotId) {
+      setSelectedRobotId(robotId);
+    }
+    vmStatesRef.current = new Map();
+    traceRef.current = replayTrace;
+  };
+
   const applySolverProgram = useCallback((program: SolverProgram) => {
     const workspace = workspaceRef.current;
     if (!workspace) {
@@ -1323,16 +1726,11 @@ const App = () => {
       setSolverBestScore(-Infinity);
       setSolverBestProgram(null);
       setSolverBestTrace(null);
+      setSolverBestLevels([]);
       setSolverPreviewFrame(0);
       ghostRobotsRef.current = null;
 
       const budget = budgetOverride ?? solverBudget;
-      const solverActions: RobotAction[] = [
-        'MOVE_FORWARD',
-        'TURN_LEFT',
-        'TURN_RIGHT',
-        'WAIT',
-      ];
       const solverConditions: SolverWorkerStartPayload['search']['conditions'] = [
         'AHEAD_CLEAR',
         'LEFT_CLEAR',
@@ -1340,24 +1738,16 @@ const App = () => {
         'ON_GOAL',
         'ON_PRESSURE_PLATE',
         'ON_RAFT',
+        'SIGNAL_RAISED',
+        'ROBOT_AHEAD',
+        'WALL_AHEAD',
+        'HAZARD_AHEAD',
+        'DOOR_AHEAD',
+        'HOLDING_KEY',
       ];
       const payload: SolverWorkerStartPayload = {
-        level: {
-          id: currentLevel.id,
-          name: currentLevel.name,
-          grid: currentLevel.grid,
-          spawner: currentLevel.spawner,
-          exits: currentLevel.exits,
-          requiredSaved: currentLevel.requiredSaved,
-          maxTicks: currentLevel.maxTicks,
-          start: currentLevel.start,
-          goal: currentLevel.goal,
-        },
-        evalOptions: {
-          maxTicks: currentLevel.maxTicks ?? 200,
-          maxVmSteps: currentLevel.maxTicks ?? 200,
-          sampleEvery: 4,
-        },
+        level: toSolverLevel(currentLevel),
+        evalOptions: getSolverEvalOptions(currentLevel),
         search: {
           maxAttempts: budget.maxAttempts,
           maxTimeMs: budget.maxTimeMs,
@@ -1366,12 +1756,15 @@ const App = () => {
           progressEvery: 15,
           actions: solverActions,
           conditions: solverConditions,
+          extraLevels: levels
+            .slice(levelIndex + 1, levelIndex + solverScope.levelCount)
+            .map(toSolverLevel),
         },
       };
 
       worker.postMessage({ type: 'start', payload });
     },
-    [currentLevel, solverBudget],
+    [currentLevel, levelIndex, solverBudget, solverScope],
   );
 
   const handleSolverCancel = useCallback(() => {
@@ -1383,6 +1776,77 @@ const App = () => {
     setSolverStatus('idle');
   }, []);
 
+  const handleSolverPause = useCallback(() => {
+    const worker = solverWorkerRef.current;
+    if (!worker || (solverStatus !== 'running' && solverStatus !== 'paused')) {
+      return;
+    }
+    worker.postMessage({ type: solverStatus === 'running' ? 'pause' : 'resume' });
+    setSolverStatus(solverStatus === 'running' ? 'paused' : 'running');
+  }, [solverStatus]);
+
+  const handleSolverBudgetChange = useCallback(
+    (budgetId: SolverBudgetOption['id']) => {
+      setSolverBudgetId(budgetId);
+      const budget = solverBudgetOptions.find((option) => option.id === budgetId);
+      const worker = solverWorkerRef.current;
+      if (!budget || !worker || (solverStatus !== 'running' && solverStatus !== 'paused')) {
+        return;
+      }
+      worker.postMessage({
+        type: 'budget',
+        payload: {
+          maxAttempts: budget.maxAttempts,
+          maxTimeMs: budget.maxTimeMs,
+          maxDepth: budget.maxDepth,
+          beamWidth: budget.beamWidth,
+        },
+      });
+    },
+    [solverStatus],
+  );
+
+  const handleSolverHint = useCallback(() => {
+    const worker = solverWorkerRef.current;
+    const workspace = workspaceRef.current;
+    if (!worker || !workspace || !currentLevel) {
+      return;
+    }
+    const { program, diagnostics } = compileWorkspace(workspace);
+    if (hasCompileErrors(diagnostics)) {
+      setSolverHint({
+        blockId: null,
+        message: 'Fix the blocks with warning signs first, then ask for a hint.',
+      });
+      return;
+    }
+    const translated = fromProgramNode(program);
+    if (!translated) {
+      setSolverHint({
+        blockId: null,
+        message:
+          'Hints work with move, turn, loop and if blocks. Procedures and counters are not supported yet.',
+      });
+      return;
+    }
+    hintBlockIdsRef.current = translated.blockIds;
+    setSolverHint(null);
+    setIsHintPending(true);
+    repairRequestIdRef.current += 1;
+    worker.postMessage({
+      type: 'repair',
+      payload: {
+        requestId: repairRequestIdRef.current,
+        level: toSolverLevel(currentLevel),
+        evalOptions: getSolverEvalOptions(currentLevel),
+        program: translated.program,
+        actions: solverActions,
+        maxAttempts: solverBudget.maxAttempts * 2,
+        maxTimeMs: solverBudget.maxTimeMs,
+      },
+    });
+  }, [currentLevel, solverBudget]);
+
   const handleSolverApply = useCallback(() => {
     if (!solverBestProgram) {
       return;
@@ -1396,13 +1860,25 @@ const App = () => {
         id: 'find',
         label: 'Find solution',
         onClick: () => handleSolverStart(),
-        disabled: solverStatus === 'running',
+        disabled: isSolverActive,
+      },
+      {
+        id: 'pause',
+        label: solverStatus === 'paused' ? 'Resume' : 'Pause',
+        onClick: handleSolverPause,
+        disabled: !isSolverActive,
       },
       {
         id: 'cancel',
         label: 'Cancel',
         onClick: handleSolverCancel,
-        disabled: solverStatus !== 'running',
+        disabled: !isSolverActive,
+      },
+      {
+        id: 'hint',
+        label: 'Hint for my program',
+        onClick: handleSolverHint,
+        disabled: isSolverActive || isHintPending,
       },
       {
         id: 'apply',
@@ -1436,7 +1912,11 @@ const App = () => {
     [
       handleSolverApply,
       handleSolverCancel,
+      handleSolverHint,
+      handleSolverPause,
       handleSolverStart,
+      isHintPending,
+      isSolverActive,
       solverBestProgram,
       solverStatus,
     ],
@@ -1450,8 +1930,84 @@ const App = () => {
     }
     const highlightedId = vmState?.currentNode?.blockId ?? null;
     workspace.highlightBlock(highlightedId);
+    highlightedBlockIdRef.current = highlightedId;
   }, [vmState]);
 
+  useEffect(() => {
+    const workspace = workspaceRef.current;
+    if (!workspace || !stalledBlockId) {
+      return undefined;
+    }
+    const block = workspace.getBlockById(stalledBlockId);
+    if (!block) {
+      return undefined;
+    }
+    workspace.highlightBlock(stalledBlockId);
+    highlightedBlockIdRef.current = stalledBlockId;
+    block.setWarningText(
+      'This loop never reaches an action block, so the robot cannot move.',
+      'stalled',
+    );
+    return () => {
+      if (!block.isDisposed()) {
+        block.setWarningText(null, 'stalled');
+      }
+    };
+  }, [stalledBlockId]);
+
+  useEffect(() => {
+    const workspace = workspaceRef.current;
+    if (!workspace) {
+      return undefined;
+    }
+    const messagesByBlock = new Map<string, string[]>();
+    compileDiagnostics.forEach((diagnostic) => {
+      messagesByBlock.set(diagnostic.blockId, [
+        ...(messagesByBlock.get(diagnostic.blockId) ?? []),
+        diagnostic.message,
+      ]);
+    });
+    const blocks = Array.from(messagesByBlock.entries()).flatMap(([blockId, messages]) => {
+      const block = workspace.getBlockById(blockId);
+      if (!block) {
+        return [];
+      }
+      block.setWarningText(messages.join('\n'), 'compile');
+      return [block];
+    });
+    return () => {
+      blocks.forEach((block) => {
+        if (!block.isDisposed()) {
+          block.setWarningText(null, 'compile');
+        }
+      });
+    };
+  }, [compileDiagnostics]);
+
+  useEffect(() => {
+    const workspace = workspaceRef.current;
+    if (!workspace || !solverHint?.blockId) {
+      return undefined;
+    }
+    const block = workspace.getBlockById(solverHint.blockId);
+    if (!block) {
+      return undefined;
+    }
+    const hintBlockId = solverHint.blockId;
+    workspace.highlightBlock(hintBlockId);
+    highlightedBlockIdRef.current = hintBlockId;
+    block.setWarningText(solverHint.message, 'hint');
+    return () => {
+      if (!block.isDisposed()) {
+        block.setWarningText(null, 'hint');
+      }
+      if (workspaceRef.current === workspace && highlightedBlockIdRef.current === hintBlockId) {
+        workspace.highlightBlock(null);
+        highlightedBlockIdRef.current = null;
+      }
+    };
+  }, [solverHint]);
+
   useEffect(() => {
     let isMounted = true;
     loadRenderAssets()
@@ -1614,11 +2170,25 @@ const App = () => {
         console.warn('Unable to restore program from local storage.', error);
       }
     }
+    const refreshCompileResult = () => {
+      const { program, diagnostics } = compileWorkspace(workspace);
+      const programKey = JSON.stringify({ program, diagnostics });
+      if (programKey === compiledProgramKeyRef.current) {
+        return;
+      }
+      compiledProgramKeyRef.current = programKey;
+      setCompileDiagnostics(diagnostics);
+      setSolverHint(null);
+      repairRequestIdRef.current += 1;
+      setIsHintPending(false);
+    };
+    refreshCompileResult();
     const handleWorkspaceChange = (event: Blockly.Events.Abstract) => {
       if (event.type === Blockly.Events.UI || workspace.isDragging()) {
         return;
       }
       saveStoredProgram(workspace);
+      refreshCompileResult();
       if (
         vmStatesRef.current.size === 0 &&
         !isRunningRef.current &&
@@ -1630,8 +2200,10 @@ const App = () => {
       setIsReplaying(false);
       vmStatesRef.current = new Map();
       runActionsRef.current = [];
+      runEventsRef.current = [];
+      seenStatesRef.current = new Map();
       traceRef.current = [];
-      setActionTrace([]);
+      setTraceEvents([]);
       setCurrentAction(null);
       setVmState(null);
     };
@@ -1645,13 +2217,26 @@ const App = () => {
   }, []);
 
   useEffect(() => {
-    const worker = new Worker(new URL('../solver/worker.ts', import.meta.url), {
-      type: 'module',
-    });
-    solverWorkerRef.current = worker;
+    const handleResponse = (response: SolverWorkerResponse) => {
+      if (response.type === 'repair') {
+        if (response.requestId !== repairRequestIdRef.current) {
+          return;
+        }
+        const result = response.payload;
+        setIsHintPending(false);
+        setSolverHint(
+          result.edit
+            ? describeRepairEdit(result.edit, hintBlockIdsRef.current)
+            : {
+                blockId: null,
+                message: result.solved
+                  ? 'Your program already solves this level!'
+                  : 'No single-block change helps yet. Try the full solver instead.',
+              },
+        );
+        return;
+      }
 
-    const handleMessage = (event: MessageEvent<SolverWorkerResponse>) => {
-      const response = event.data;
       if (response.type === 'progress') {
         const payload = response.payload;
         setSolverAttempts(payload.attemptCount);
@@ -1659,6 +2244,7 @@ const App = () => {
         setSolverBestScore(payload.bestScore);
         setSolverBestProgram(payload.bestProgram ?? null);
         setSolverBestTrace(payload.bestTrace ?? null);
+        setSolverBestLevels(payload.bestLevels ?? []);
         return;
       }
 
@@ -1669,15 +2255,23 @@ const App = () => {
         setSolverBestScore(payload.bestScore);
         setSolverBestProgram(payload.bestProgram ?? null);
         setSolverBestTrace(payload.bestTrace ?? null);
+        setSolverBestLevels(payload.bestLevels ?? []);
         setSolverStatus(payload.solved ? 'solved' : 'unsolved');
       }
     };
 
-    worker.addEventListener('message', handleMessage);
+    const pool = createSolverPool(
+      getSolverPoolSize(navigator.hardwareConcurrency),
+      () =>
+        new Worker(new URL('../solver/worker.ts', import.meta.url), {
+          type: 'module',
+        }),
+      handleResponse,
+    );
+    solverWorkerRef.current = pool;
 
     return () => {
-      worker.removeEventListener('message', handleMessage);
-      worker.terminate();
+      pool.terminate();
       solverWorkerRef.current = null;
     };
   }, []);
@@ -1718,11 +2312,14 @@ const App = () => {
       const selectedAction =
         (selectedIndex >= 0 ? actionSet[selectedIndex] : undefined) ?? actionSet[0];
       if (selectedAction) {
-        const updatedTrace = [...traceRef.current, selectedAction];
-        traceRef.current = updatedTrace;
-        setActionTrace(updatedTrace);
         setCurrentAction(selectedAction);
       }
+      const updatedTrace = [
+        ...traceRef.current,
+        ...filterTraceEvents(nextSimulation.events, selectedId),
+      ];
+      traceRef.current = updatedTrace;
+      setTraceEvents(updatedTrace);
 
       const nextIndex = index + 1;
       setReplayIndex(nextIndex);
@@ -1742,7 +2339,7 @@ const App = () => {
     }
 
     traceLogRef.current.scrollTop = traceLogRef.current.scrollHeight;
-  }, [actionTrace.length]);
+  }, [traceEvents.length]);
 
   useEffect(() => {
     if (solverWorkerRef.current) {
@@ -1754,8 +2351,12 @@ const App = () => {
     setSolverBestScore(-Infinity);
     setSolverBestProgram(null);
     setSolverBestTrace(null);
+    setSolverBestLevels([]);
     setSolverPreviewFrame(0);
     ghostRobotsRef.current = null;
+    repairRequestIdRef.current += 1;
+    setSolverHint(null);
+    setIsHintPending(false);
   }, [levelIndex]);
 
   useEffect(() => {
@@ -1842,6 +2443,12 @@ const App = () => {
   }, [selectedRobotId, simulation.robots]);
 
   const isBusy = isRunning || isReplaying;
+  const hasBlockingDiagnostics = hasCompileErrors(compileDiagnostics);
+  const compileErrorCount = new Set(
+    compileDiagnostics
+      .filter((diagnostic) => diagnostic.severity === 'error')
+      .map((diagnostic) => diagnostic.blockId),
+  ).size;
   const mobilePlayPauseLabel = isBusy ? (isReplaying ? 'Stop replay' : 'Pause') : 'Run';
   const mobilePlayPauseIcon = isBusy ? '❚❚' : '▶';
   const hasReplay = lastRunActions.length > 0;
@@ -1854,6 +2461,12 @@ const App = () => {
       ? 'A robot hit a hazard.'
       : failReason === 'step_limit'
         ? 'Too many steps without saving enough robots.'
+        : failReason === 'recursion'
+          ? 'A procedure kept calling itself and ran too deep.'
+        : failReason === 'no_progress'
+          ? 'A loop kept checking its condition without ever giving the robot an action.'
+        : failReason === 'loop'
+          ? 'The robots got stuck in a loop, repeating the same moves forever.'
         : failReason === 'quota'
           ? 'Not enough robots made it to the exit.'
         : 'Program failed.';
@@ -1888,7 +2501,9 @@ const App = () => {
   const solverStatusLabel =
     solverStatus === 'running'
       ? 'Searching'
-      : solverStatus === 'solved'
+      : solverStatus === 'paused'
+        ? 'Paused'
+        : solverStatus === 'solved'
         ? 'Solved'
         : solverStatus === 'unsolved'
           ? 'Best effort'
@@ -1900,19 +2515,43 @@ const App = () => {
   const lostCount = simulation.robots.filter((robot) => !robot.alive).length;
   const activeCount = simulation.robots.filter((robot) => robot.alive).length;
   const remainingCount = Math.max(simulation.spawner.count - simulation.spawnedCount, 0);
-  const hasDoors = simulation.world.grid.some((row) => row.some((tile) => tile === TileType.Door));
-  const doorStatus = hasDoors
-    ? isDoorOpen(simulation.world, simulation.robots, simulation.doorUnlocked)
-      ? 'Open'
-      : 'Closed'
-    : '—';
+  const doorCount = simulation.world.grid.reduce(
+    (count, row) => count + row.filter((tile) => tile === TileType.Door).length,
+    0,
+  );
+  const openDoorCount = listOpenDoors(
+    simulation.world,
+    simulation.robots,
+    simulation.channels,
+    simulation.openChannels,
+  ).size;
+  const doorStatus =
+    doorCount === 0
+      ? '—'
+      : openDoorCount === doorCount
+        ? 'Open'
+        : openDoorCount === 0
+          ? 'Closed'
+          : `${openDoorCount} / ${doorCount} Open`;
   const quotaLabel = `${savedCount} / ${simulation.requiredSaved}`;
+  const skillsLabel = (
+    [
+      ['Build', simulation.skills.build],
+      ['Block', simulation.skills.block],
+      ['Dig', simulation.skills.dig],
+    ] as const
+  )
+    .filter(([, count]) => count > 0)
+    .map(([label, count]) => `${label} ${count}`)
+    .join(' · ');
   const selectedRobotStatus = selectedRobot
     ? selectedRobot.reachedGoal
       ? 'Saved'
-      : selectedRobot.alive
-        ? 'Active'
-        : 'Lost'
+      : !selectedRobot.alive
+        ? 'Lost'
+        : selectedRobot.isBlocker
+          ? 'Blocking'
+          : 'Active'
     : '—';
   const nextSpawnMessage =
     simulation.spawnedCount >= simulation.spawner.count
@@ -1929,9 +2568,11 @@ const App = () => {
   const bubbleStatus = bubbleRobot
     ? bubbleRobot.reachedGoal
       ? 'Saved'
-      : bubbleRobot.alive
-        ? 'Active'
-        : 'Lost'
+      : !bubbleRobot.alive
+        ? 'Lost'
+        : bubbleRobot.isBlocker
+          ? 'Blocking'
+          : 'Active'
     : '—';
   const bubbleAction = bubbleVmState?.currentNode?.action;
   const bubbleProgramLabel = bubbleAction
@@ -1939,6 +2580,9 @@ const App = () => {
     : bubbleVmState?.status === 'done'
       ? 'Program complete'
       : 'Idle';
+  const bubbleVariables = Object.entries(bubbleVmState?.variables ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
   const bubbleIsBelow = bubbleRobot ? bubbleRobot.y <= 1 : false;
   const bubblePosition = bubbleRobot
     ? {
@@ -1970,8 +2614,27 @@ const App = () => {
     '--bubble-shift': `${tileBubbleShift}px`,
     '--bubble-pointer-offset': `${tileBubblePointerOffset}px`,
   };
-  const platePressed = isPressurePlatePressed(simulation.world, simulation.robots);
-  const doorOpen = isDoorOpen(simulation.world, simulation.robots, simulation.doorUnlocked);
+  const tileBubbleChannel = tileBubble
+    ? getTileChannel(simulation.channels, tileBubble.x, tileBubble.y)
+    : null;
+  const platePressed =
+    tileBubbleChannel !== null &&
+    isPressurePlatePressed(
+      simulation.world,
+      simulation.robots,
+      simulation.channels,
+      tileBubbleChannel,
+      simulation.crates,
+    );
+  const doorOpen =
+    tileBubbleChannel !== null &&
+    isDoorOpen(
+      simulation.world,
+      simulation.robots,
+      simulation.channels,
+      tileBubbleChannel,
+      simulation.openChannels,
+    );
 
   useEffect(() => {
     setDesignerRequiredSaved((value) => {
@@ -1995,6 +2658,14 @@ const App = () => {
     () => listDesignerPositions(designerGrid, TileType.Goal),
     [designerGrid],
   );
+  const designerPads = useMemo(
+    () => designerTeleporters.filter((pad) => designerGrid[pad.y]?.[pad.x] === TileType.Teleporter),
+    [designerGrid, designerTeleporters],
+  );
+  const designerPadsByPosition = useMemo(
+    () => new Map(designerPads.map((pad) => [`${pad.x},${pad.y}`, pad.id])),
+    [designerPads],
+  );
   const designerPrimarySpawn = designerSpawnStarts[0] ?? { x: 0, y: 0, dir: 'E' };
   const designerLevelJson = useMemo(
     () =>
@@ -2014,6 +2685,7 @@ const App = () => {
               designerSpawnerCount > 1 ? designerSpawnStarts.slice(0, designerSpawnerCount) : undefined,
           },
           exits: designerExits,
+          teleporters: designerPads.length > 0 ? designerPads : undefined,
           requiredSaved: designerRequiredSaved,
           maxTicks: 200,
         },
@@ -2023,6 +2695,7 @@ const App = () => {
     [
       designerExits,
       designerGrid,
+      designerPads,
       designerPrimarySpawn,
       designerRequiredSaved,
       designerSpawnStarts,
@@ -2231,6 +2904,18 @@ const App = () => {
                         <dt>VM</dt>
                         <dd>{bubbleVmState?.status ?? 'idle'}</dd>
                       </div>
+                      {bubbleRobot.inventory.length > 0 ? (
+                        <div>
+                          <dt>Carrying</dt>
+                          <dd>{bubbleRobot.inventory.join(', ')}</dd>
+                        </div>
+                      ) : null}
+                      {bubbleVariables.map(([name, value]) => (
+                        <div key={name}>
+                          <dt>{name}</dt>
+                          <dd>{value}</dd>
+                        </div>
+                      ))}
                     </dl>
                   ) : (
                     <p className="robot-bubble__empty">Robot not active yet.</p>
@@ -2266,6 +2951,10 @@ const App = () => {
                         <dt>Status</dt>
                         <dd>{doorOpen ? 'Open' : 'Closed'}</dd>
                       </div>
+                      <div>
+                        <dt>Channel</dt>
+                        <dd>{tileBubbleChannel}</dd>
+                      </div>
                     </dl>
                   ) : null}
                   {tileBubble.type === TileType.PressurePlate ? (
@@ -2274,6 +2963,10 @@ const App = () => {
                         <dt>Signal</dt>
                         <dd>{platePressed ? 'Pressed' : 'Idle'}</dd>
                       </div>
+                      <div>
+                        <dt>Channel</dt>
+                        <dd>{tileBubbleChannel}</dd>
+                      </div>
                     </dl>
                   ) : null}
                 </div>
@@ -2294,6 +2987,23 @@ const App = () => {
                         ? `Saved ${savedCount} of ${simulation.requiredSaved} robots.`
                         : failMessage}
                     </p>
+                    {simulation.status === 'lost' && failureDetails.length > 0 ? (
+                      <ul className="sim-overlay__failures">
+                        {failureDetails.map((detail) => (
+                          <li key={`${detail.kind}-${detail.tick}-${detail.robotIds.join('-')}`}>
+                            <span>{detail.message}</span>
+                            {hasReplay && detail.tick > 0 ? (
+                              <button
+                                type="button"
+                                onClick={() => handleReplayToTick(detail.tick, detail.robotIds[0])}
+                              >
+                                Show tick {detail.tick}
+                              </button>
+                            ) : null}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
                     <div className="sim-overlay__actions">
                       {simulation.status === 'won' && hasNextLevel ? (
                         <button type="button" onClick={() => loadLevel(levelIndex + 1)}>
@@ -2347,13 +3057,21 @@ const App = () => {
           <h2>Command Console</h2>
           <div className="console">
             <div className="console__controls">
-              <button type="button" onClick={handleRun} disabled={isBusy}>
+              <button
+                type="button"
+                onClick={handleRun}
+                disabled={isBusy || hasBlockingDiagnostics}
+              >
                 Run
               </button>
               <button type="button" onClick={handlePause} disabled={!isBusy}>
                 {isReplaying ? 'Stop Replay' : 'Pause'}
               </button>
-              <button type="button" onClick={handleStep} disabled={isBusy}>
+              <button
+                type="button"
+                onClick={handleStep}
+                disabled={isBusy || hasBlockingDiagnostics}
+              >
                 Step
               </button>
               <button type="button" onClick={handleReset}>
@@ -2363,6 +3081,13 @@ const App = () => {
                 Replay
               </button>
             </div>
+            {compileErrorCount > 0 ? (
+              <p className="console__diagnostics">
+                {compileErrorCount === 1
+                  ? 'One block needs fixing before you can run. Look for the warning sign.'
+                  : `${compileErrorCount} blocks need fixing before you can run. Look for the warning signs.`}
+              </p>
+            ) : null}
             <div className="console__speed">
               <p>Speed</p>
               <div className="speed-toggle" role="group" aria-label="Simulation speed">
@@ -2409,6 +3134,14 @@ const App = () => {
                 <p className="status-card__label">Doors</p>
                 <p className="status-card__value">{doorStatus}</p>
               </div>
+              <div className="status-card">
+                <p className="status-card__label">Skills</p>
+                <p className="status-card__value">{skillsLabel || '—'}</p>
+              </div>
+              <div className="status-card">
+                <p className="status-card__label">Signal</p>
+                <p className="status-card__value">{simulation.signalRaised ? 'Raised' : '—'}</p>
+              </div>
             </div>
             <div className="console__robots">
               <div className="console__robots-header">
@@ -2538,9 +3271,8 @@ const App = () => {
                   id="solver-budget"
                   value={solverBudgetId}
                   onChange={(event) =>
-                    setSolverBudgetId(event.target.value as SolverBudgetOption['id'])
+                    handleSolverBudgetChange(event.target.value as SolverBudgetOption['id'])
                   }
-                  disabled={solverStatus === 'running'}
                 >
                   {solverBudgetOptions.map((option) => (
                     <option key={option.id} value={option.id}>
@@ -2549,6 +3281,22 @@ const App = () => {
                   ))}
                 </select>
                 <p className="solver-panel__note">{solverBudget.description}</p>
+                <label htmlFor="solver-scope">Levels</label>
+                <select
+                  id="solver-scope"
+                  value={solverScopeId}
+                  onChange={(event) =>
+                    setSolverScopeId(event.target.value as SolverScopeOption['id'])
+                  }
+                  disabled={isSolverActive}
+                >
+                  {solverScopeOptions.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="solver-panel__note">{solverScope.description}</p>
               </div>
               <div className="solver-panel__progress">
                 <div className="solver-panel__stats">
@@ -2573,16 +3321,22 @@ const App = () => {
                 <button
                   type="button"
                   onClick={() => handleSolverStart()}
-                  disabled={solverStatus === 'running'}
+                  disabled={isSolverActive}
                 >
                   Find Solution
                 </button>
+                <button type="button" onClick={handleSolverPause} disabled={!isSolverActive}>
+                  {solverStatus === 'paused' ? 'Resume' : 'Pause'}
+                </button>
+                <button type="button" onClick={handleSolverCancel} disabled={!isSolverActive}>
+                  Cancel
+                </button>
                 <button
                   type="button"
-                  onClick={handleSolverCancel}
-                  disabled={solverStatus !== 'running'}
+                  onClick={handleSolverHint}
+                  disabled={isSolverActive || isHintPending}
                 >
-                  Cancel
+                  Hint for my program
                 </button>
                 <button
                   type="button"
@@ -2611,6 +3365,28 @@ const App = () => {
                   </>
                 ) : null}
               </div>
+              {solverBestLevels.length > 1 ? (
+                <ul className="solver-panel__levels" aria-label="Levels solved by the best program">
+                  {solverBestLevels.map((outcome, index) => (
+                    <li
+                      key={outcome.id ?? index}
+                      className={
+                        outcome.solved
+                          ? 'solver-panel__level solver-panel__level--solved'
+                          : 'solver-panel__level'
+                      }
+                    >
+                      {outcome.name ?? outcome.id ?? `Level ${index + 1}`}:{' '}
+                      {outcome.solved ? 'solved' : 'not yet'}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              {solverHint ? (
+                <p className="solver-panel__hint">{solverHint.message}</p>
+              ) : isHintPending ? (
+                <p className="solver-panel__note">Looking for a small fix to your program.</p>
+              ) : null}
               <div className="solver-panel__preview">
                 <p className="solver-panel__note">
                   Ghost previews show the best run so far on the grid.
@@ -2629,16 +3405,16 @@ const App = () => {
           <div className="controls__trace">
             <h3>Trace</h3>
             <div className="controls__trace-log" aria-live="polite" ref={traceLogRef}>
-              {actionTrace.length === 0 ? (
-                <p>Build a program and step/run to see actions here.</p>
+              {traceEvents.length === 0 ? (
+                <p>Build a program and step/run to see what happens here.</p>
               ) : (
                 <ol>
-                  {actionTrace.map((action, index) => (
+                  {traceEvents.map((event, index) => (
                     <li
-                      key={`${action}-${index}`}
-                      className={index === actionTrace.length - 1 ? 'is-current' : undefined}
+                      key={`${event.type}-${event.tick}-${index}`}
+                      className={index === traceEvents.length - 1 ? 'is-current' : undefined}
                     >
-                      {actionLabels[action]}
+                      {formatTraceEvent(event)}
                     </li>
                   ))}
                 </ol>
@@ -2787,9 +3563,25 @@ const App = () => {
                     >
                       Place bots
                     </button>
+                    <button
+                      type="button"
+                      className={`designer__tool-button${
+                        designerTool === 'pads' ? ' is-selected' : ''
+                      }`}
+                      onClick={() => setDesignerTool('pads')}
+                    >
+                      Pair pads
+                    </button>
                   </div>
                 </div>
               </div>
+              <div className="designer__group">
+                <h3>Teleporters</h3>
+                <p className="designer__note">
+                  With Pair pads selected, click two cells to link them. Click a pad to remove it.
+                  Placed: {designerPads.length}
+                </p>
+              </div>
               <div className="designer__group">
                 <h3>Exits</h3>
                 <p className="designer__note">
@@ -2815,6 +3607,11 @@ const App = () => {
                         designerTileLabelByType[cell as TileType]
                       }`}
                     >
+                      {designerPadsByPosition.has(`${colIndex},${rowIndex}`) ? (
+                        <span className="designer-cell__pad" aria-hidden="true">
+                          {designerPadsByPosition.get(`${colIndex},${rowIndex}`)}
+                        </span>
+                      ) : null}
                       {(() => {
                         const spawnEntry = designerSpawnStartsByPosition.get(
                           `${colIndex},${rowIndex}`,
@@ -3012,8 +3809,9 @@ const App = () => {
           <select
             id="mobile-solver-budget"
             value={solverBudgetId}
-            onChange={(event) => setSolverBudgetId(event.target.value as SolverBudgetOption['id'])}
-            disabled={solverStatus === 'running'}
+            onChange={(event) =>
+              handleSolverBudgetChange(event.target.value as SolverBudgetOption['id'])
+            }
           >
             {solverBudgetOptions.map((option) => (
               <option key={option.id} value={option.id}>
@@ -3021,6 +3819,19 @@ const App = () => {
               </option>
             ))}
           </select>
+          <label htmlFor="mobile-solver-scope">Levels</label>
+          <select
+            id="mobile-solver-scope"
+            value={solverScopeId}
+            onChange={(event) => setSolverScopeId(event.target.value as SolverScopeOption['id'])}
+            disabled={isSolverActive}
+          >
+            {solverScopeOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
         <div className="mobile-solver-menu__actions">
           {solverActionItems.map((item) => (